@@ -0,0 +1,227 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createLogger } from './logger.js';
+import type { ApiKey, ApiKeyScope } from './types.js';
+
+/**
+ * API key authentication
+ *
+ * Keys come from ADMIN_API_KEYS and API_KEYS (comma-separated), and from the JSON
+ * file at API_KEYS_FILE, which is re-read whenever it changes so keys can be added
+ * and revoked without a restart:
+ *
+ *   {
+ *     "keys": [
+ *       { "name": "sonarr", "key": "3f9c...", "scope": "read" },
+ *       { "name": "ops", "key": "a71e...", "scope": "admin" }
+ *     ]
+ *   }
+ *
+ * Admin keys can use every endpoint; read keys can fetch lists but not reach
+ * /admin or write to Sonarr. Admin endpoints are refused until an admin key is
+ * configured; list endpoints are open until a read key is configured.
+ */
+
+const log = createLogger('Auth');
+
+// Endpoints that stay open for health checks and discovery
+const PUBLIC_PATHS = new Set(['/', '/health']);
+
+let fileKeys: ApiKey[] = [];
+let loadedFile: string | null = null;
+let loadedMtimeMs = 0;
+
+/**
+ * Get the path of the API keys file, if one is configured
+ */
+export function getApiKeysPath(): string | undefined {
+  return process.env.API_KEYS_FILE ? path.resolve(process.env.API_KEYS_FILE) : undefined;
+}
+
+/**
+ * Validate the parsed contents of an API keys file
+ * Returns the keys, or every problem found
+ */
+export function validateApiKeysFile(raw: unknown): { keys: ApiKey[] } | { errors: string[] } {
+  const list = (raw as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(list)) {
+    return { errors: ['API keys file must be a JSON object with a "keys" array'] };
+  }
+
+  const errors: string[] = [];
+  const keys: ApiKey[] = [];
+  list.forEach((raw: unknown, index) => {
+    const label = `keys[${index}]`;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+    const { key, scope, name } = raw as Record<string, unknown>;
+    if (typeof key !== 'string' || key.trim() === '') {
+      errors.push(`${label}.key: must be a non-empty string`);
+      return;
+    }
+    if (scope !== 'admin' && scope !== 'read') {
+      errors.push(`${label}.scope: must be "admin" or "read"`);
+      return;
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      errors.push(`${label}.name: must be a string`);
+      return;
+    }
+    keys.push({ key: key.trim(), scope, name: name ?? label });
+  });
+
+  return errors.length > 0 ? { errors } : { keys };
+}
+
+/**
+ * Get the keys from the API keys file, re-reading it when it has changed
+ * A missing or invalid file keeps the last good keys
+ */
+function getFileKeys(): ApiKey[] {
+  const file = getApiKeysPath();
+  if (!file) return [];
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch (error) {
+    if (loadedFile !== file || loadedMtimeMs !== -1) {
+      log.error(
+        `Cannot read ${file}, keeping previous keys:`,
+        error instanceof Error ? error.message : error
+      );
+      loadedFile = file;
+      loadedMtimeMs = -1;
+    }
+    return fileKeys;
+  }
+  if (loadedFile === file && loadedMtimeMs === mtimeMs) {
+    return fileKeys;
+  }
+
+  loadedFile = file;
+  loadedMtimeMs = mtimeMs;
+  try {
+    const result = validateApiKeysFile(JSON.parse(fs.readFileSync(file, 'utf8')));
+    if ('errors' in result) {
+      throw new Error(`\n  - ${result.errors.join('\n  - ')}`);
+    }
+    fileKeys = result.keys;
+    log.info(`Loaded ${fileKeys.length} API keys from ${file}`);
+  } catch (error) {
+    log.error(
+      `Keeping previous API keys, ${file} is invalid:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+  return fileKeys;
+}
+
+/**
+ * Read a comma-separated list of keys from an environment variable
+ */
+function readEnvKeys(name: string, scope: ApiKeyScope): ApiKey[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key, index) => ({ key, scope, name: `${name}[${index}]` }));
+}
+
+/**
+ * Get every configured API key
+ */
+export function getApiKeys(): ApiKey[] {
+  return [
+    ...readEnvKeys('ADMIN_API_KEYS', 'admin'),
+    ...readEnvKeys('API_KEYS', 'read'),
+    ...getFileKeys(),
+  ];
+}
+
+/**
+ * Compare two keys in constant time, whatever their lengths
+ */
+function keysMatch(a: string, b: string): boolean {
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(a), hash(b));
+}
+
+/**
+ * Get the scope an endpoint needs, or null when it is open to everyone
+ * /admin and requests that change Sonarr need an admin key; everything else a read key
+ */
+export function getRequiredScope(method: string, requestPath: string): ApiKeyScope | null {
+  // Express routes match regardless of case, so /ADMIN/... must be protected too
+  requestPath = requestPath.toLowerCase();
+  if (PUBLIC_PATHS.has(requestPath)) return null;
+  if (requestPath.startsWith('/admin/') || requestPath === '/admin') return 'admin';
+  if (requestPath.startsWith('/sync/') && method !== 'GET' && method !== 'HEAD') return 'admin';
+  return 'read';
+}
+
+/**
+ * Decide whether a request may proceed
+ * The key is whatever the client sent in a header or the apikey query parameter
+ */
+export function authorize(
+  method: string,
+  requestPath: string,
+  presented: string | undefined
+): { ok: true; key?: ApiKey } | { ok: false; status: 401 | 403; error: string; message: string } {
+  const scope = getRequiredScope(method, requestPath);
+  if (!scope) return { ok: true };
+
+  const keys = getApiKeys();
+  if (scope === 'admin' && !keys.some((key) => key.scope === 'admin')) {
+    return {
+      ok: false,
+      status: 403,
+      error: 'Admin API key not configured',
+      message: `${method} ${requestPath} needs an admin key. Set ADMIN_API_KEYS or add an admin key to API_KEYS_FILE.`,
+    };
+  }
+  if (scope === 'read' && !keys.some((key) => key.scope === 'read')) {
+    return { ok: true };
+  }
+
+  if (!presented) {
+    return {
+      ok: false,
+      status: 401,
+      error: 'API key required',
+      message: 'Send an API key in the X-Api-Key header or the apikey query parameter.',
+    };
+  }
+
+  const key = keys.find((candidate) => keysMatch(candidate.key, presented));
+  if (!key) {
+    return {
+      ok: false,
+      status: 401,
+      error: 'Invalid API key',
+      message: 'The API key is not valid.',
+    };
+  }
+  if (scope === 'admin' && key.scope !== 'admin') {
+    return {
+      ok: false,
+      status: 403,
+      error: 'Insufficient scope',
+      message: `The API key "${key.name}" is read-only; ${method} ${requestPath} needs an admin key.`,
+    };
+  }
+  return { ok: true, key };
+}
+
+/**
+ * Get the authentication status for /health, without revealing keys
+ */
+export function getAuthStatus(): { adminKeys: number; readKeys: number; listsProtected: boolean } {
+  const keys = getApiKeys();
+  const readKeys = keys.filter((key) => key.scope === 'read').length;
+  return { adminKeys: keys.length - readKeys, readKeys, listsProtected: readKeys > 0 };
+}
@@ -0,0 +1,246 @@
+import { MONITOR_MODES } from './config.js';
+import { fetchIMDBList } from './imdb.js';
+import { createLogger } from './logger.js';
+import { deleteSeries, getSeries, updateSeries } from './sonarr.js';
+import { createFileStore } from './store.js';
+import { getSeriesSyncRecords } from './sync.js';
+import { resolveSeries } from './tvdb.js';
+import type {
+  CleanupAction,
+  CleanupAuditRecord,
+  CleanupResult,
+  ListState,
+  SonarrLibrarySeries,
+  SonarrMonitorMode,
+} from './types.js';
+
+/**
+ * Watchlist-removal cleanup
+ *
+ * Each run fetches an IMDB list and compares it with the IDs seen on the previous
+ * run. Shows that left the list are looked up in Sonarr by TVDB ID and unmonitored
+ * or deleted, but only when they were added with one of the configured monitor
+ * modes and have no downloaded files. Every decision, including skips, is written
+ * to an audit log.
+ *
+ * Configured with CLEANUP_ACTION (unmonitor or delete), CLEANUP_MONITOR_MODES and
+ * CLEANUP_INFER_MONITOR_MODE.
+ */
+
+const log = createLogger('Cleanup');
+
+const CLEANUP_ACTIONS: CleanupAction[] = ['unmonitor', 'delete'];
+const DEFAULT_MONITOR_MODES: SonarrMonitorMode[] = ['pilot', 'firstSeason'];
+
+const stateStore = createFileStore<ListState>('cleanup-state');
+const auditStore = createFileStore<CleanupAuditRecord>('cleanup-audit');
+let auditSequence = 0;
+
+/**
+ * Get the cleanup action and monitor modes from environment
+ */
+export function getCleanupSettings(): {
+  action: CleanupAction;
+  monitorModes: SonarrMonitorMode[];
+  inferMonitorMode: boolean;
+} {
+  const action = (process.env.CLEANUP_ACTION || 'unmonitor') as CleanupAction;
+  if (!CLEANUP_ACTIONS.includes(action)) {
+    throw new Error(`CLEANUP_ACTION must be one of ${CLEANUP_ACTIONS.join(', ')}, got "${action}"`);
+  }
+
+  const monitorModes = process.env.CLEANUP_MONITOR_MODES
+    ? (process.env.CLEANUP_MONITOR_MODES.split(',')
+        .map((mode) => mode.trim())
+        .filter(Boolean) as SonarrMonitorMode[])
+    : DEFAULT_MONITOR_MODES;
+  const invalid = monitorModes.filter((mode) => !MONITOR_MODES.includes(mode));
+  if (invalid.length > 0) {
+    throw new Error(
+      `CLEANUP_MONITOR_MODES has unknown modes: ${invalid.join(', ')}. Expected any of: ${MONITOR_MODES.join(', ')}`
+    );
+  }
+
+  return {
+    action,
+    monitorModes,
+    inferMonitorMode: process.env.CLEANUP_INFER_MONITOR_MODE === 'true',
+  };
+}
+
+/**
+ * Work out the monitor mode a series was added with
+ *
+ * Sonarr doesn't keep the mode, so only the one recorded by a sync is known for sure.
+ * With `infer`, a series without a record whose season 1 is monitored and whose later
+ * seasons are not is taken as firstSeason. A one-season show is never inferred, since
+ * it looks the same when added with `all`; pilot can't be told apart from firstSeason.
+ */
+export function getSeriesMonitorMode(
+  series: SonarrLibrarySeries,
+  infer = false
+): SonarrMonitorMode | undefined {
+  const recorded = getSeriesSyncRecords(series.tvdbId).find((record) => record.monitor);
+  if (recorded) return recorded.monitor;
+  if (!infer) return undefined;
+
+  const seasons = (series.seasons || []).filter((season) => season.seasonNumber > 0);
+  const monitored = seasons.filter((season) => season.monitored);
+  if (
+    monitored.length === 1 &&
+    monitored[0].seasonNumber === 1 &&
+    seasons.some((season) => season.seasonNumber > 1)
+  ) {
+    return 'firstSeason';
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the number of downloaded episode files of a series, if Sonarr reported it
+ */
+function getEpisodeFileCount(series: SonarrLibrarySeries): number | undefined {
+  const count = series.statistics?.episodeFileCount ?? series.episodeFileCount;
+  return typeof count === 'number' ? count : undefined;
+}
+
+/**
+ * Get audit records, newest first, optionally for one list
+ */
+export function getCleanupAudit(listId?: string): CleanupAuditRecord[] {
+  return auditStore
+    .values()
+    .filter((record) => !listId || record.listId === listId)
+    .reverse();
+}
+
+/**
+ * Decide what to do with one removed IMDB ID and carry it out
+ */
+async function cleanupItem(
+  listId: string,
+  imdbId: string,
+  library: Map<number, SonarrLibrarySeries>,
+  settings: ReturnType<typeof getCleanupSettings>,
+  dryRun: boolean
+): Promise<CleanupAuditRecord> {
+  const record: CleanupAuditRecord = {
+    at: new Date().toISOString(),
+    listId,
+    imdbId,
+    action: 'skipped',
+    ...(dryRun ? { dryRun } : {}),
+  };
+
+  const resolution = await resolveSeries(imdbId);
+  if (resolution.outcome === 'http-error' || resolution.outcome === 'network-error') {
+    return { ...record, action: 'failed', reason: `TMDB lookup failed (${resolution.outcome})` };
+  }
+  if (resolution.outcome !== 'resolved') {
+    return { ...record, reason: `Could not resolve to a TVDB ID (${resolution.outcome})` };
+  }
+  record.tvdbId = resolution.tvdbId;
+  record.title = resolution.title;
+
+  const series = library.get(resolution.tvdbId);
+  if (!series) {
+    return { ...record, reason: 'Not in the Sonarr library' };
+  }
+  record.sonarrId = series.id;
+  record.title = series.title || record.title;
+
+  const mode = getSeriesMonitorMode(series, settings.inferMonitorMode);
+  if (!mode || !settings.monitorModes.includes(mode)) {
+    return {
+      ...record,
+      reason: `Monitor mode ${mode ?? 'unknown'} is not one of ${settings.monitorModes.join(', ')}`,
+    };
+  }
+
+  const fileCount = getEpisodeFileCount(series);
+  if (fileCount === undefined) {
+    return { ...record, reason: 'Sonarr did not report the number of downloaded files' };
+  }
+  if (fileCount > 0) {
+    return { ...record, reason: `Has ${fileCount} downloaded episode files` };
+  }
+
+  const done = settings.action === 'delete' ? 'deleted' : 'unmonitored';
+  if (settings.action === 'unmonitor' && series.monitored === false) {
+    return { ...record, reason: 'Already unmonitored' };
+  }
+  if (dryRun) {
+    return { ...record, action: done, reason: `Would be ${done}` };
+  }
+
+  try {
+    if (settings.action === 'delete') {
+      await deleteSeries(series.id!);
+    } else {
+      await updateSeries({ ...series, monitored: false });
+    }
+    log.info(`${listId}: ${done} ${record.title} (TVDB ${record.tvdbId})`);
+    return { ...record, action: done, reason: `Left the list with monitor mode ${mode}` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`${listId}: failed on TVDB ${record.tvdbId}: ${message}`);
+    return { ...record, action: 'failed', reason: message };
+  }
+}
+
+/**
+ * Clean up Sonarr series for shows that left an IMDB list since the previous run
+ * The first run for a list only records it; a dry run changes nothing and records nothing.
+ * Shows whose cleanup failed are kept in the saved state so the next run retries them.
+ */
+export async function cleanupList(
+  listId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<CleanupResult> {
+  const dryRun = options.dryRun ?? false;
+  const settings = getCleanupSettings();
+
+  const items = await fetchIMDBList(listId, { fetchAll: true });
+  const current = [...new Set(items.map((item) => item.imdbId))];
+  const previous = stateStore.get(listId);
+
+  // An empty fetch usually means IMDB returned nothing, not that the list was emptied
+  if (previous && previous.imdbIds.length > 0 && current.length === 0) {
+    throw new Error(
+      `IMDB returned no items for ${listId}; refusing to treat every show as removed`
+    );
+  }
+
+  const currentIds = new Set(current);
+  const removed = previous ? previous.imdbIds.filter((id) => !currentIds.has(id)) : [];
+  const actions: CleanupAuditRecord[] = [];
+  const retry: string[] = [];
+
+  if (removed.length > 0) {
+    const library = new Map((await getSeries()).map((series) => [series.tvdbId, series]));
+    for (const imdbId of removed) {
+      const record = await cleanupItem(listId, imdbId, library, settings, dryRun);
+      actions.push(record);
+      if (record.action === 'failed') retry.push(imdbId);
+      if (!dryRun) {
+        auditStore.set(`${Date.now()}-${auditSequence++}`, record);
+      }
+    }
+  }
+
+  if (!dryRun) {
+    stateStore.set(listId, { listId, imdbIds: [...current, ...retry], fetchedAt: Date.now() });
+  }
+
+  log.info(`${listId}: ${removed.length} removed since last run${dryRun ? ' (dry run)' : ''}`);
+
+  return {
+    listId,
+    hadPrevious: !!previous,
+    previousCount: previous?.imdbIds.length ?? 0,
+    currentCount: current.length,
+    removed,
+    actions,
+  };
+}
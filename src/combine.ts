@@ -0,0 +1,152 @@
+import { ITEMS_PER_PAGE, fetchIMDBList, parseListId } from './imdb.js';
+import { createLogger } from './logger.js';
+import type { FetchIMDBListOptions } from './imdb.js';
+import type { CombinedItems, IMDBItem, SetOperation } from './types.js';
+
+/**
+ * Combining several IMDB lists into one
+ *
+ * - union: items on any of the lists
+ * - intersection: items on every list
+ * - difference: items on the first list that are on none of the others
+ *
+ * Items are deduplicated by IMDB ID and keep the order of the first list they appear on.
+ */
+
+const log = createLogger('Combine');
+
+export const SET_OPERATIONS: ReadonlyArray<SetOperation> = ['union', 'intersection', 'difference'];
+
+// Upper bound on lists per request, since each one is a full IMDB fetch
+const MAX_COMBINED_LISTS = 10;
+
+/**
+ * Combine already-fetched lists with a set operation
+ */
+export function combineLists(lists: IMDBItem[][], operation: SetOperation): IMDBItem[] {
+  if (lists.length === 0) return [];
+
+  const idSets = lists.map((list) => new Set(list.map((item) => item.imdbId)));
+  const seen = new Set<string>();
+  const result: IMDBItem[] = [];
+
+  const candidates = operation === 'union' ? lists.flat() : lists[0];
+  for (const item of candidates) {
+    if (seen.has(item.imdbId)) continue;
+
+    const keep =
+      operation === 'union' ||
+      (operation === 'intersection' && idSets.every((ids) => ids.has(item.imdbId))) ||
+      (operation === 'difference' && !idSets.slice(1).some((ids) => ids.has(item.imdbId)));
+
+    if (keep) {
+      seen.add(item.imdbId);
+      result.push(item);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse the ?lists= and ?op= query parameters of a combined request
+ * Returns the list IDs and operation, or a message describing what is wrong
+ */
+export function parseCombinedQuery(
+  query: Record<string, unknown>
+): { listIds: string[]; operation: SetOperation } | { error: string } {
+  const rawLists = Array.isArray(query.lists) ? query.lists.join(',') : String(query.lists || '');
+  const listIds = [
+    ...new Set(
+      rawLists
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    ),
+  ];
+
+  if (listIds.length === 0) {
+    return { error: 'lists is required, e.g. ?lists=ur12345678,ls036390872' };
+  }
+  if (listIds.length > MAX_COMBINED_LISTS) {
+    return { error: `At most ${MAX_COMBINED_LISTS} lists can be combined` };
+  }
+
+  const invalid = listIds.filter((id) => {
+    const parsed = parseListId(id);
+    return !parsed || parsed.type === 'url';
+  });
+  if (invalid.length > 0) {
+    return {
+      error: `Invalid list IDs: ${invalid.join(', ')}. Expected format: ur12345678 or ls12345678`,
+    };
+  }
+
+  const operation = String(query.op || 'union') as SetOperation;
+  if (!SET_OPERATIONS.includes(operation)) {
+    return {
+      error: `Unknown op "${operation}". Expected one of: ${SET_OPERATIONS.join(', ')}`,
+    };
+  }
+  if (operation !== 'union' && listIds.length < 2) {
+    return { error: `op=${operation} needs at least two lists` };
+  }
+
+  return { listIds, operation };
+}
+
+/**
+ * Cut a combined list down by fetch options, as if it were one IMDB list
+ */
+function limitCombined(items: IMDBItem[], options: FetchIMDBListOptions = {}): IMDBItem[] {
+  const { fetchAll = true, maxItems, page } = options;
+  if (!fetchAll) {
+    const start = ((page ?? 1) - 1) * ITEMS_PER_PAGE;
+    return items.slice(start, start + ITEMS_PER_PAGE);
+  }
+  return maxItems ? items.slice(0, maxItems) : items;
+}
+
+/**
+ * Fetch several IMDB lists and combine them with a set operation, keeping track of
+ * which lists each item is on so per-list exclusions can be applied to the result
+ * Lists are fetched one after another to stay gentle on IMDB, and always in full:
+ * an intersection or difference of lists cut short would be wrong. The fetch options
+ * apply to the combined result instead.
+ */
+export async function fetchCombinedItems(
+  listIds: string[],
+  operation: SetOperation,
+  options?: FetchIMDBListOptions
+): Promise<CombinedItems> {
+  const lists: IMDBItem[][] = [];
+  for (const listId of listIds) {
+    lists.push(await fetchIMDBList(listId, { fetchAll: true }));
+  }
+
+  const combined = combineLists(lists, operation);
+  const items = limitCombined(combined, options);
+  log.info(
+    `${operation} of ${listIds.length} lists: ${lists.map((l) => l.length).join('/')} -> ${combined.length} items`
+  );
+
+  const sources = new Map<string, string[]>();
+  lists.forEach((list, i) => {
+    for (const { imdbId } of list) {
+      const found = sources.get(imdbId) ?? [];
+      if (!found.includes(listIds[i])) sources.set(imdbId, [...found, listIds[i]]);
+    }
+  });
+  return { items, sources };
+}
+
+/**
+ * Fetch several IMDB lists and combine them with a set operation
+ */
+export async function fetchCombinedList(
+  listIds: string[],
+  operation: SetOperation,
+  options?: FetchIMDBListOptions
+): Promise<IMDBItem[]> {
+  return (await fetchCombinedItems(listIds, operation, options)).items;
+}
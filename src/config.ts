@@ -0,0 +1,365 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseListId } from './imdb.js';
+import { SET_OPERATIONS } from './combine.js';
+import { parseItemFilters } from './filters.js';
+import { createLogger } from './logger.js';
+import type {
+  APIConfig,
+  IMDBItem,
+  ListProfile,
+  SetOperation,
+  SonarrAddOptions,
+  SonarrMonitorMode,
+} from './types.js';
+
+/**
+ * Configuration file loading
+ *
+ * Named list profiles are defined in a JSON file whose path is set by CONFIG_FILE:
+ *
+ *   {
+ *     "profiles": {
+ *       "dramas": {
+ *         "sources": ["ur12345678", "ls036390872"],
+ *         "operation": "union",
+ *         "types": ["tvSeries", "tvMiniSeries"],
+ *         "maxItems": 500,
+ *         "exclude": ["tt0903747"],
+ *         "filters": { "genres": "Drama,-Reality-TV", "minRating": 7 },
+ *         "format": "full",
+ *         "sonarr": { "qualityProfileId": 1, "rootFolderPath": "/tv", "monitor": "pilot" }
+ *       }
+ *     }
+ *   }
+ *
+ * The file is validated at startup and watched for changes. A change that fails
+ * validation is logged and ignored, so the last good config stays active.
+ */
+
+const log = createLogger('Config');
+
+const PROFILE_KEYS = [
+  'sources',
+  'operation',
+  'types',
+  'maxItems',
+  'exclude',
+  'filters',
+  'format',
+  'sonarr',
+] as const;
+const FILTER_KEYS = ['genres', 'minRating', 'maxRating', 'minVotes', 'yearFrom', 'yearTo'];
+const DEFAULT_TYPES: Array<IMDBItem['type']> = ['tvSeries', 'tvMiniSeries'];
+const SONARR_KEYS = [
+  'qualityProfileId',
+  'rootFolderPath',
+  'languageProfileId',
+  'monitor',
+  'seasonFolder',
+  'seriesType',
+  'tags',
+  'searchForMissingEpisodes',
+];
+export const MONITOR_MODES: ReadonlyArray<SonarrMonitorMode> = [
+  'all',
+  'future',
+  'missing',
+  'existing',
+  'pilot',
+  'firstSeason',
+  'latestSeason',
+  'none',
+];
+const SERIES_TYPES: Array<SonarrAddOptions['seriesType']> = ['standard', 'daily', 'anime'];
+
+let currentConfig: APIConfig | null = null;
+let watchedFile: string | null = null;
+
+/**
+ * Get the path of the config file, if one is configured
+ */
+export function getConfigPath(): string | undefined {
+  return process.env.CONFIG_FILE ? path.resolve(process.env.CONFIG_FILE) : undefined;
+}
+
+/**
+ * Validate the Sonarr add options of a profile
+ */
+function validateSonarrOptions(
+  prefix: string,
+  raw: unknown,
+  errors: string[]
+): SonarrAddOptions | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${prefix}: must be an object`);
+    return undefined;
+  }
+  const options = raw as Record<string, unknown>;
+
+  const before = errors.length;
+  for (const key of Object.keys(options)) {
+    if (!SONARR_KEYS.includes(key)) {
+      errors.push(`${prefix}: unknown key "${key}"`);
+    }
+  }
+
+  if (!(Number.isInteger(options.qualityProfileId) && (options.qualityProfileId as number) > 0)) {
+    errors.push(`${prefix}.qualityProfileId: must be a positive whole number`);
+  }
+  if (typeof options.rootFolderPath !== 'string' || !options.rootFolderPath) {
+    errors.push(`${prefix}.rootFolderPath: must be a non-empty string`);
+  }
+  if (
+    options.languageProfileId !== undefined &&
+    !(Number.isInteger(options.languageProfileId) && (options.languageProfileId as number) > 0)
+  ) {
+    errors.push(`${prefix}.languageProfileId: must be a positive whole number`);
+  }
+
+  const monitor = (options.monitor ?? 'all') as SonarrMonitorMode;
+  if (!MONITOR_MODES.includes(monitor)) {
+    errors.push(`${prefix}.monitor: must be one of ${MONITOR_MODES.join(', ')}`);
+  }
+  const seriesType = (options.seriesType ?? 'standard') as SonarrAddOptions['seriesType'];
+  if (!SERIES_TYPES.includes(seriesType)) {
+    errors.push(`${prefix}.seriesType: must be one of ${SERIES_TYPES.join(', ')}`);
+  }
+  for (const key of ['seasonFolder', 'searchForMissingEpisodes']) {
+    if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+      errors.push(`${prefix}.${key}: must be true or false`);
+    }
+  }
+
+  const tags = options.tags ?? [];
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string' || !tag.trim())) {
+    errors.push(`${prefix}.tags: must be an array of tag labels`);
+  }
+
+  if (errors.length > before) return undefined;
+
+  return {
+    qualityProfileId: options.qualityProfileId as number,
+    rootFolderPath: options.rootFolderPath as string,
+    languageProfileId: options.languageProfileId as number | undefined,
+    monitor,
+    seasonFolder: (options.seasonFolder as boolean | undefined) ?? true,
+    seriesType,
+    tags: (tags as string[]).map((tag) => tag.trim()),
+    searchForMissingEpisodes: (options.searchForMissingEpisodes as boolean | undefined) ?? false,
+  };
+}
+
+/**
+ * Validate a single profile from the config file
+ */
+function validateProfile(name: string, raw: unknown, errors: string[]): ListProfile | null {
+  const prefix = `profiles.${name}`;
+  const before = errors.length;
+
+  if (!/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(name)) {
+    errors.push(`${prefix}: name may only contain letters, digits, "-" and "_"`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${prefix}: must be an object`);
+    return null;
+  }
+  const fields = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(fields)) {
+    if (!(PROFILE_KEYS as readonly string[]).includes(key)) {
+      errors.push(`${prefix}: unknown key "${key}"`);
+    }
+  }
+
+  const sources: string[] = Array.isArray(fields.sources) ? fields.sources : [];
+  if (sources.length === 0) {
+    errors.push(`${prefix}.sources: must be a non-empty array of IMDB list IDs or URLs`);
+  }
+  for (const source of sources) {
+    if (typeof source !== 'string' || !parseListId(source)) {
+      errors.push(`${prefix}.sources: invalid IMDB list ID or URL ${JSON.stringify(source)}`);
+    }
+  }
+
+  const operation = (fields.operation ?? 'union') as SetOperation;
+  if (!SET_OPERATIONS.includes(operation)) {
+    errors.push(`${prefix}.operation: must be one of ${SET_OPERATIONS.join(', ')}`);
+  } else if (operation !== 'union' && sources.length < 2) {
+    errors.push(`${prefix}.operation: ${operation} needs at least two sources`);
+  }
+
+  if (
+    fields.maxItems !== undefined &&
+    !(Number.isInteger(fields.maxItems) && (fields.maxItems as number) > 0)
+  ) {
+    errors.push(`${prefix}.maxItems: must be a positive whole number`);
+  }
+
+  const exclude = fields.exclude ?? [];
+  if (
+    !Array.isArray(exclude) ||
+    exclude.some((id) => typeof id !== 'string' || !/^tt\d+$/.test(id))
+  ) {
+    errors.push(`${prefix}.exclude: must be an array of IMDB IDs (tt1234567)`);
+  }
+
+  const format = (fields.format ?? 'full') as ListProfile['format'];
+  if (format !== 'full' && format !== 'minimal') {
+    errors.push(`${prefix}.format: must be "full" or "minimal"`);
+  }
+
+  // Filters reuse the query-string parser so profiles and URLs behave identically
+  const rawFilters = fields.filters ?? {};
+  const query: Record<string, unknown> = {};
+  if (!rawFilters || typeof rawFilters !== 'object' || Array.isArray(rawFilters)) {
+    errors.push(`${prefix}.filters: must be an object`);
+  } else {
+    for (const [key, value] of Object.entries(rawFilters)) {
+      if (!FILTER_KEYS.includes(key)) {
+        errors.push(`${prefix}.filters: unknown filter "${key}"`);
+      } else {
+        query[key] = Array.isArray(value) ? value.map(String) : String(value);
+      }
+    }
+  }
+  query.types = fields.types ?? DEFAULT_TYPES;
+  if (!Array.isArray(query.types)) {
+    errors.push(`${prefix}.types: must be an array of item types`);
+  }
+
+  const parsed = parseItemFilters(query);
+  if ('error' in parsed) {
+    errors.push(`${prefix}: ${parsed.error}`);
+  }
+
+  const sonarr =
+    fields.sonarr !== undefined
+      ? validateSonarrOptions(`${prefix}.sonarr`, fields.sonarr, errors)
+      : undefined;
+
+  if (errors.length > before || 'error' in parsed) {
+    return null;
+  }
+
+  return {
+    name,
+    sources,
+    operation,
+    maxItems: fields.maxItems as number | undefined,
+    exclude: exclude as string[],
+    filters: parsed.filters,
+    format,
+    sonarr,
+  };
+}
+
+/**
+ * Validate the parsed contents of a config file
+ * Returns the profiles, or every problem found
+ */
+export function validateConfigFile(
+  raw: unknown
+): { profiles: Record<string, ListProfile> } | { errors: string[] } {
+  const errors: string[] = [];
+  const profiles: Record<string, ListProfile> = {};
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: ['config must be a JSON object'] };
+  }
+
+  const rawProfiles = (raw as Record<string, unknown>).profiles;
+  if (!rawProfiles || typeof rawProfiles !== 'object' || Array.isArray(rawProfiles)) {
+    return { errors: ['profiles: must be an object of named profiles'] };
+  }
+
+  for (const [name, rawProfile] of Object.entries(rawProfiles)) {
+    const profile = validateProfile(name, rawProfile, errors);
+    if (profile) profiles[name] = profile;
+  }
+
+  return errors.length > 0 ? { errors } : { profiles };
+}
+
+/**
+ * Build the full config from the environment and an optional profiles file
+ * Throws with every validation problem if the file is invalid
+ */
+export function loadConfig(): APIConfig {
+  const cacheTtl = parseInt(process.env.CACHE_TTL_SECONDS || '', 10);
+  const config: APIConfig = {
+    port: parseInt(process.env.PORT || '3000', 10),
+    tmdbApiKey: process.env.TMDB_API_KEY || undefined,
+    cacheTtlSeconds: Number.isFinite(cacheTtl) && cacheTtl > 0 ? cacheTtl : 86400,
+    profiles: {},
+  };
+
+  const file = getConfigPath();
+  if (file) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read config file ${file}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const result = validateConfigFile(raw);
+    if ('errors' in result) {
+      throw new Error(`Invalid config file ${file}:\n  - ${result.errors.join('\n  - ')}`);
+    }
+    config.profiles = result.profiles;
+    log.info(`Loaded ${Object.keys(config.profiles).length} profiles from ${file}`);
+  }
+
+  currentConfig = config;
+  return config;
+}
+
+/**
+ * Get the active config, loading it on first use
+ */
+export function getConfig(): APIConfig {
+  return currentConfig ?? loadConfig();
+}
+
+/**
+ * Look up a profile by name
+ */
+export function getProfile(name: string): ListProfile | undefined {
+  const { profiles } = getConfig();
+  return Object.prototype.hasOwnProperty.call(profiles, name) ? profiles[name] : undefined;
+}
+
+/**
+ * Reload the config file whenever it changes on disk
+ * `onReload` is called with the new config after each successful reload
+ */
+export function watchConfig(onReload?: (config: APIConfig) => void): void {
+  const file = getConfigPath();
+  if (!file || watchedFile === file) return;
+
+  stopWatchingConfig();
+  watchedFile = file;
+  fs.watchFile(file, { interval: 2000 }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    try {
+      const config = loadConfig();
+      log.info(`Reloaded ${file}`);
+      onReload?.(config);
+    } catch (error) {
+      log.error(`Keeping previous config:`, error instanceof Error ? error.message : error);
+    }
+  }).unref();
+}
+
+/**
+ * Stop watching the config file
+ */
+export function stopWatchingConfig(): void {
+  if (watchedFile) {
+    fs.unwatchFile(watchedFile);
+    watchedFile = null;
+  }
+}
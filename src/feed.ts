@@ -0,0 +1,166 @@
+import { filterTVShows } from './imdb.js';
+import { getFirstSeen } from './snapshots.js';
+import { isResolverConfigured, resolveItems } from './tvdb.js';
+import type { FeedEntry, IMDBItem } from './types.js';
+
+/**
+ * RSS and Atom feeds of recent list additions
+ *
+ * IMDB pages don't say when an item was added, so entries are dated by the list
+ * snapshot that first showed them. Items already on a list when it was first
+ * snapshotted all share that date.
+ */
+
+const DEFAULT_FEED_SIZE = 50;
+const MAX_FEED_SIZE = 250;
+
+const TYPE_LABELS: Record<IMDBItem['type'], string> = {
+  movie: 'Movie',
+  tvSeries: 'TV series',
+  tvMiniSeries: 'TV mini-series',
+  tvSpecial: 'TV special',
+  video: 'Video',
+  short: 'Short',
+  unknown: 'Unknown type',
+};
+
+/**
+ * Parse the ?limit= query parameter of a feed
+ */
+export function parseFeedLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_FEED_SIZE) : DEFAULT_FEED_SIZE;
+}
+
+/**
+ * Build feed entries for the most recent additions to a list, newest first
+ * Items first seen together keep their list order, later positions first
+ */
+export async function buildFeedEntries(
+  listId: string,
+  items: IMDBItem[],
+  limit = DEFAULT_FEED_SIZE
+): Promise<FeedEntry[]> {
+  const firstSeen = getFirstSeen(listId);
+  const now = Date.now();
+
+  const recent = items
+    .map((item, index) => ({ item, index, addedAt: firstSeen.get(item.imdbId) ?? now }))
+    .sort((a, b) => b.addedAt - a.addedAt || b.index - a.index)
+    .slice(0, limit);
+
+  const tvdbIds = new Map<string, number>();
+  if (isResolverConfigured()) {
+    const shows = filterTVShows(recent.map(({ item }) => item));
+    for (const { item, resolution } of await resolveItems(shows)) {
+      if (resolution?.outcome === 'resolved') tvdbIds.set(item.imdbId, resolution.tvdbId);
+    }
+  }
+
+  return recent.map(({ item, addedAt }) => ({
+    guid: `urn:imdbarr:${listId}:${item.imdbId}`,
+    imdbId: item.imdbId,
+    title: item.title,
+    year: item.year,
+    type: item.type,
+    url: `https://www.imdb.com/title/${item.imdbId}/`,
+    tvdbId: tvdbIds.get(item.imdbId),
+    addedAt,
+  }));
+}
+
+/**
+ * Escape text for use in XML content and attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Describe an entry in one line, e.g. "TV series · 2008 · TVDB 81189"
+ */
+function describeEntry(entry: FeedEntry): string {
+  return [
+    TYPE_LABELS[entry.type],
+    entry.year,
+    entry.tvdbId ? `TVDB ${entry.tvdbId}` : undefined,
+    entry.imdbId,
+  ]
+    .filter((part) => part !== undefined)
+    .join(' · ');
+}
+
+/**
+ * Get the title shown for an entry, e.g. "Breaking Bad (2008)"
+ */
+function entryTitle(entry: FeedEntry): string {
+  return entry.year ? `${entry.title} (${entry.year})` : entry.title;
+}
+
+/**
+ * Render entries as an RSS 2.0 feed
+ */
+export function renderRss(
+  feed: { title: string; link: string; selfUrl: string },
+  entries: FeedEntry[]
+): string {
+  const items = entries.map(
+    (entry) => `    <item>
+      <title>${escapeXml(entryTitle(entry))}</title>
+      <link>${escapeXml(entry.url)}</link>
+      <guid isPermaLink="false">${escapeXml(entry.guid)}</guid>
+      <pubDate>${new Date(entry.addedAt).toUTCString()}</pubDate>
+      <category>${escapeXml(entry.type)}</category>
+      <description>${escapeXml(describeEntry(entry))}</description>
+    </item>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.link)}</link>
+    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>
+    <description>${escapeXml(`Recent additions to ${feed.title}`)}</description>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Render entries as an Atom 1.0 feed
+ */
+export function renderAtom(
+  feed: { title: string; link: string; selfUrl: string; id: string },
+  entries: FeedEntry[]
+): string {
+  const updated = new Date(entries.length > 0 ? entries[0].addedAt : Date.now()).toISOString();
+  const items = entries.map(
+    (entry) => `  <entry>
+    <title>${escapeXml(entryTitle(entry))}</title>
+    <link href="${escapeXml(entry.url)}"/>
+    <id>${escapeXml(entry.guid)}</id>
+    <updated>${new Date(entry.addedAt).toISOString()}</updated>
+    <category term="${escapeXml(entry.type)}"/>
+    <summary>${escapeXml(describeEntry(entry))}</summary>
+  </entry>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <link href="${escapeXml(feed.link)}"/>
+  <link href="${escapeXml(feed.selfUrl)}" rel="self"/>
+  <id>${escapeXml(feed.id)}</id>
+  <updated>${updated}</updated>
+  <author><name>imdbarr</name></author>
+${items.join('\n')}
+</feed>
+`;
+}
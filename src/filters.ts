@@ -0,0 +1,174 @@
+import type { IMDBItem, ItemFilters } from './types.js';
+
+/**
+ * Query-based filtering of IMDB list items
+ *
+ * Supported query parameters:
+ * - genres=Drama,-Reality   include any of the listed genres, exclude those prefixed with "-"
+ * - minRating / maxRating   IMDB rating bounds (0-10)
+ * - minVotes                minimum number of IMDB votes
+ * - yearFrom / yearTo       release year bounds (inclusive)
+ * - types=tvSeries,movie    only keep these item types
+ *
+ * Items missing the field a filter checks (e.g. no rating) never match that filter.
+ */
+
+const ITEM_TYPES: ReadonlyArray<IMDBItem['type']> = [
+  'movie',
+  'tvSeries',
+  'tvMiniSeries',
+  'tvSpecial',
+  'video',
+  'short',
+  'unknown',
+];
+
+/**
+ * Read a query parameter as a list of comma-separated values
+ * Repeated parameters (?genres=a&genres=b) are merged
+ */
+function readList(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.map(String) : value !== undefined ? [String(value)] : [];
+  return raw
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read a numeric query parameter, returning an error message if it isn't valid
+ */
+function readNumber(
+  query: Record<string, unknown>,
+  name: string,
+  options: { min?: number; max?: number; integer?: boolean } = {}
+): { value?: number; error?: string } {
+  const raw = query[name];
+  if (raw === undefined || raw === '') return {};
+
+  const text = String(raw).trim();
+  const value = Number(text);
+  if (!text || !Number.isFinite(value)) {
+    return { error: `${name} must be a number, got "${text}"` };
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    return { error: `${name} must be a whole number, got "${text}"` };
+  }
+  if (options.min !== undefined && value < options.min) {
+    return { error: `${name} must be at least ${options.min}, got ${value}` };
+  }
+  if (options.max !== undefined && value > options.max) {
+    return { error: `${name} must be at most ${options.max}, got ${value}` };
+  }
+  return { value };
+}
+
+/**
+ * Parse filters from a request query
+ * Returns the filters, or a message describing the first invalid value
+ */
+export function parseItemFilters(
+  query: Record<string, unknown>
+): { filters: ItemFilters } | { error: string } {
+  const filters: ItemFilters = { includeGenres: [], excludeGenres: [] };
+
+  for (const genre of readList(query.genres)) {
+    if (genre.startsWith('-')) {
+      const name = genre.substring(1).trim();
+      if (!name) return { error: 'genres contains an empty exclusion ("-")' };
+      filters.excludeGenres.push(name.toLowerCase());
+    } else {
+      filters.includeGenres.push(genre.toLowerCase());
+    }
+  }
+
+  const numbers = [
+    ['minRating', { min: 0, max: 10 }],
+    ['maxRating', { min: 0, max: 10 }],
+    ['minVotes', { min: 0, integer: true }],
+    ['yearFrom', { min: 1800, max: 3000, integer: true }],
+    ['yearTo', { min: 1800, max: 3000, integer: true }],
+  ] as const;
+
+  for (const [name, options] of numbers) {
+    const { value, error } = readNumber(query, name, options);
+    if (error) return { error };
+    if (value !== undefined) filters[name] = value;
+  }
+
+  if (
+    filters.minRating !== undefined &&
+    filters.maxRating !== undefined &&
+    filters.minRating > filters.maxRating
+  ) {
+    return { error: 'minRating cannot be greater than maxRating' };
+  }
+  if (
+    filters.yearFrom !== undefined &&
+    filters.yearTo !== undefined &&
+    filters.yearFrom > filters.yearTo
+  ) {
+    return { error: 'yearFrom cannot be greater than yearTo' };
+  }
+
+  const types = readList(query.types);
+  if (types.length > 0) {
+    const invalid = types.filter((t) => !ITEM_TYPES.includes(t as IMDBItem['type']));
+    if (invalid.length > 0) {
+      return {
+        error: `Unknown types: ${invalid.join(', ')}. Expected any of: ${ITEM_TYPES.join(', ')}`,
+      };
+    }
+    filters.types = types as Array<IMDBItem['type']>;
+  }
+
+  return { filters };
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasItemFilters(filters: ItemFilters): boolean {
+  return (
+    filters.includeGenres.length > 0 ||
+    filters.excludeGenres.length > 0 ||
+    filters.minRating !== undefined ||
+    filters.maxRating !== undefined ||
+    filters.minVotes !== undefined ||
+    filters.yearFrom !== undefined ||
+    filters.yearTo !== undefined ||
+    filters.types !== undefined
+  );
+}
+
+/**
+ * Check an optional value against optional inclusive bounds
+ * A missing value never satisfies a bound that is set
+ */
+function withinBounds(value: number | undefined, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value === undefined) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Apply filters to a list of IMDB items
+ */
+export function applyItemFilters(items: IMDBItem[], filters: ItemFilters): IMDBItem[] {
+  if (!hasItemFilters(filters)) return items;
+
+  return items.filter((item) => {
+    if (filters.types && !filters.types.includes(item.type)) return false;
+
+    const genres = (item.genres || []).map((g) => g.toLowerCase());
+    const { includeGenres, excludeGenres } = filters;
+    if (includeGenres.length > 0 && !includeGenres.some((g) => genres.includes(g))) return false;
+    if (excludeGenres.some((g) => genres.includes(g))) return false;
+
+    return (
+      withinBounds(item.rating, filters.minRating, filters.maxRating) &&
+      withinBounds(item.votes, filters.minVotes) &&
+      withinBounds(item.year, filters.yearFrom, filters.yearTo)
+    );
+  });
+}
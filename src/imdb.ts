@@ -1,5 +1,10 @@
 import * as cheerio from 'cheerio';
-import type { IMDBItem } from './types.js';
+import { createLogger } from './logger.js';
+import { createCounter, createGauge } from './metrics.js';
+import { notifyListChanges } from './notify.js';
+import { createSingleFlight } from './singleflight.js';
+import { recordSnapshot } from './snapshots.js';
+import type { IMDBItem, IMDBItemMetadata } from './types.js';
 
 /**
  * Fetches and parses an IMDB watchlist or list
@@ -9,6 +14,8 @@ import type { IMDBItem } from './types.js';
  * - Custom lists: https://www.imdb.com/list/lsXXXXXXXXX/
  */
 
+const log = createLogger('IMDB');
+
 const IMDB_BASE_URL = 'https://www.imdb.com';
 
 /**
@@ -112,7 +119,21 @@ export interface FetchIMDBListResult {
   hasMore: boolean;
 }
 
-const ITEMS_PER_PAGE = 250;
+export const ITEMS_PER_PAGE = 250;
+
+// Concurrent fetches of the same list with the same options share one set of page requests
+const listFlights = createSingleFlight<FetchIMDBListResult>('imdbList');
+
+const pageFetchesMetric = createCounter(
+  'imdbarr_imdb_page_fetches_total',
+  'IMDB list pages fetched, by outcome: success, http-error or network-error',
+  ['outcome']
+);
+const listItemsMetric = createGauge(
+  'imdbarr_list_items',
+  'Items returned by the latest fetch of each IMDB list',
+  ['list']
+);
 
 /**
  * Extract total item count from IMDB list page HTML
@@ -186,18 +207,25 @@ async function fetchIMDBListPage(
   }
 
   const finalUrl = url.toString();
-  console.log(`[IMDB] Fetching page from: ${finalUrl}`);
-
-  const response = await fetch(finalUrl, {
-    headers: {
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.5',
-      Referer: 'https://www.google.com/',
-    },
-  });
+  log.debug(`Fetching page from: ${finalUrl}`);
+
+  let response: Response;
+  try {
+    response = await fetch(finalUrl, {
+      headers: {
+        'User-Agent':
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        Referer: 'https://www.google.com/',
+      },
+    });
+  } catch (error) {
+    pageFetchesMetric.inc({ outcome: 'network-error' });
+    throw error;
+  }
 
+  pageFetchesMetric.inc({ outcome: response.ok ? 'success' : 'http-error' });
   if (!response.ok) {
     if (response.status === 404) {
       throw new Error(`Watchlist not found. Make sure the watchlist is public.`);
@@ -211,6 +239,29 @@ async function fetchIMDBListPage(
   return { html, items };
 }
 
+/**
+ * Keep a snapshot of a completely fetched list and notify about TV shows that changed
+ * Full URLs are skipped since their query strings can change what the list contains
+ */
+function saveSnapshot(
+  listInfo: { type: 'user' | 'list' | 'url'; id: string },
+  items: IMDBItem[]
+): void {
+  if (listInfo.type === 'url') return;
+  try {
+    const diff = recordSnapshot(listInfo.id, items);
+    if (diff) {
+      // Delivery retries can take a while, so don't hold up the response
+      notifyListChanges(listInfo.id, {
+        added: filterTVShows(diff.added),
+        removed: filterTVShows(diff.removed),
+      }).catch((error) => log.error(`Failed to notify about ${listInfo.id}:`, error));
+    }
+  } catch (error) {
+    log.error(`Failed to store snapshot of ${listInfo.id}:`, error);
+  }
+}
+
 /**
  * Fetch and parse items from an IMDB watchlist or list with pagination support
  *
@@ -241,7 +292,27 @@ export async function fetchIMDBList(
   }
 
   const baseUrl = buildListUrl(listInfo);
-  console.log(`[IMDB] Fetching list from: ${baseUrl} (fetchAll: ${fetchAll})`);
+  const key = JSON.stringify([baseUrl, fetchAll, maxItems ?? null, page ?? null]);
+  const result = await listFlights.run(key, () =>
+    fetchListPages(listInfo, baseUrl, { fetchAll, maxItems, page })
+  );
+
+  listItemsMetric.set({ list: listInfo.id }, result.items.length);
+
+  // Joined callers share the result, so each gets its own items array
+  return detailed ? { ...result, items: [...result.items] } : [...result.items];
+}
+
+/**
+ * Fetch the pages of a list, as requested by fetchIMDBList
+ */
+async function fetchListPages(
+  listInfo: { type: 'user' | 'list' | 'url'; id: string },
+  baseUrl: string,
+  options: FetchIMDBListOptions
+): Promise<FetchIMDBListResult> {
+  const { fetchAll, maxItems, page } = options;
+  log.info(`Fetching list from: ${baseUrl} (fetchAll: ${fetchAll})`);
 
   try {
     // Fetch the first page to get metadata
@@ -256,37 +327,40 @@ export async function fetchIMDBList(
     const effectiveTotal = totalItems || firstPageItems.length;
     const totalPages = Math.ceil(effectiveTotal / ITEMS_PER_PAGE);
 
-    console.log(`[IMDB] List metadata: totalItems=${effectiveTotal}, totalPages=${totalPages}`);
+    log.info(`List metadata: totalItems=${effectiveTotal}, totalPages=${totalPages}`);
 
     // If not fetching all, or only one page exists, return first page
     if (!fetchAll || page !== undefined || totalPages <= 1) {
-      console.log(`[IMDB] Returning single page with ${firstPageItems.length} items`);
-
-      if (detailed) {
-        return {
-          items: firstPageItems,
-          totalItems: effectiveTotal,
-          currentPage: page || 1,
-          totalPages,
-          hasMore: (page || 1) < totalPages,
-        };
+      log.info(`Returning single page with ${firstPageItems.length} items`);
+
+      if (totalPages <= 1 && page === undefined) {
+        saveSnapshot(listInfo, firstPageItems);
       }
-      return firstPageItems;
+
+      return {
+        items: firstPageItems,
+        totalItems: effectiveTotal,
+        currentPage: page || 1,
+        totalPages,
+        hasMore: (page || 1) < totalPages,
+      };
     }
 
     // Fetch all remaining pages
     const allItems = [...firstPageItems];
     const seenIds = new Set(allItems.map((item) => item.imdbId));
     let currentPage = 2;
+    let complete = true;
 
     while (currentPage <= totalPages) {
       // Check if we've hit the maxItems limit
       if (maxItems && allItems.length >= maxItems) {
-        console.log(`[IMDB] Reached maxItems limit (${maxItems}), stopping`);
+        log.info(`Reached maxItems limit (${maxItems}), stopping`);
+        complete = false;
         break;
       }
 
-      console.log(`[IMDB] Fetching page ${currentPage}/${totalPages}`);
+      log.debug(`Fetching page ${currentPage}/${totalPages}`);
 
       try {
         const { items: pageItems } = await fetchIMDBListPage(baseUrl, currentPage);
@@ -301,23 +375,23 @@ export async function fetchIMDBList(
 
             // Check maxItems limit
             if (maxItems && allItems.length >= maxItems) {
+              complete = false;
               break;
             }
           }
         }
 
-        console.log(
-          `[IMDB] Page ${currentPage}: added ${addedCount} new items (total: ${allItems.length})`
-        );
+        log.debug(`Page ${currentPage}: added ${addedCount} new items (total: ${allItems.length})`);
 
         // If no new items were added, we've likely reached the end
         if (addedCount === 0) {
-          console.log(`[IMDB] No new items found, stopping pagination`);
+          log.info(`No new items found, stopping pagination`);
           break;
         }
       } catch (pageError) {
-        console.error(`[IMDB] Failed to fetch page ${currentPage}:`, pageError);
+        log.error(`Failed to fetch page ${currentPage}:`, pageError);
         // Continue with what we have
+        complete = false;
         break;
       }
 
@@ -330,24 +404,115 @@ export async function fetchIMDBList(
     // Apply maxItems limit if specified
     const finalItems = maxItems ? allItems.slice(0, maxItems) : allItems;
 
-    console.log(`[IMDB] Fetched ${finalItems.length} total items from ${currentPage - 1} pages`);
+    log.info(`Fetched ${finalItems.length} total items from ${currentPage - 1} pages`);
 
-    if (detailed) {
-      return {
-        items: finalItems,
-        totalItems: effectiveTotal,
-        currentPage: 1,
-        totalPages,
-        hasMore: false, // We fetched all
-      };
+    if (complete && finalItems.length === allItems.length) {
+      saveSnapshot(listInfo, finalItems);
     }
-    return finalItems;
+
+    return {
+      items: finalItems,
+      totalItems: effectiveTotal,
+      currentPage: 1,
+      totalPages,
+      hasMore: false, // We fetched all
+    };
   } catch (error) {
-    console.error(`[IMDB] Failed to fetch list:`, error);
+    log.error(`Failed to fetch list:`, error);
     throw error;
   }
 }
 
+/**
+ * Drop undefined fields so metadata only carries what was actually found
+ */
+function compactMetadata(metadata: IMDBItemMetadata): IMDBItemMetadata {
+  const result: IMDBItemMetadata = {};
+  for (const [key, value] of Object.entries(metadata) as Array<[keyof IMDBItemMetadata, any]>) {
+    if (value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Extract rating, genres, runtime, poster, plot and certificate from a __NEXT_DATA__ title node
+ */
+export function extractNextDataMetadata(node: any): IMDBItemMetadata {
+  const rawGenres: any[] =
+    (Array.isArray(node?.titleGenres?.genres) && node.titleGenres.genres) ||
+    (Array.isArray(node?.genres?.genres) && node.genres.genres) ||
+    (Array.isArray(node?.genres) && node.genres) ||
+    [];
+  const genres = rawGenres
+    .map((g) => g?.genre?.text || g?.text || (typeof g === 'string' ? g : undefined))
+    .filter((g): g is string => typeof g === 'string' && g.length > 0);
+
+  const runtimeSeconds =
+    typeof node?.runtime?.seconds === 'number' ? node.runtime.seconds : undefined;
+
+  return compactMetadata({
+    rating:
+      typeof node?.ratingsSummary?.aggregateRating === 'number'
+        ? node.ratingsSummary.aggregateRating
+        : undefined,
+    votes:
+      typeof node?.ratingsSummary?.voteCount === 'number'
+        ? node.ratingsSummary.voteCount
+        : undefined,
+    genres,
+    runtimeMinutes: runtimeSeconds ? Math.round(runtimeSeconds / 60) : undefined,
+    posterUrl: typeof node?.primaryImage?.url === 'string' ? node.primaryImage.url : undefined,
+    plot:
+      node?.plot?.plotText?.plainText ||
+      (typeof node?.plot?.plotText === 'string' ? node.plot.plotText : undefined) ||
+      undefined,
+    certificate:
+      node?.certificate?.rating ||
+      (typeof node?.certificate === 'string' ? node.certificate : undefined) ||
+      undefined,
+  });
+}
+
+/**
+ * Parse an ISO 8601 duration such as "PT1H30M" into minutes
+ */
+function parseISODurationMinutes(duration: unknown): number | undefined {
+  if (typeof duration !== 'string') return undefined;
+  const match = duration.match(/^PT(?:(\d+)H)?(?:(\d+)M)?/);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  return parseInt(match[1] || '0', 10) * 60 + parseInt(match[2] || '0', 10);
+}
+
+/**
+ * Extract rating, genres, runtime, poster, plot and certificate from a JSON-LD list entry
+ */
+export function extractJsonLdMetadata(itemData: any): IMDBItemMetadata {
+  const rawGenres: unknown[] = Array.isArray(itemData?.genre)
+    ? itemData.genre
+    : typeof itemData?.genre === 'string'
+      ? itemData.genre.split(',')
+      : [];
+  const genres = rawGenres
+    .filter((g): g is string => typeof g === 'string')
+    .map((g) => g.trim())
+    .filter(Boolean);
+
+  const ratingValue = parseFloat(itemData?.aggregateRating?.ratingValue);
+  const ratingCount = parseInt(itemData?.aggregateRating?.ratingCount, 10);
+
+  return compactMetadata({
+    rating: Number.isFinite(ratingValue) ? ratingValue : undefined,
+    votes: Number.isFinite(ratingCount) ? ratingCount : undefined,
+    genres,
+    runtimeMinutes: parseISODurationMinutes(itemData?.duration),
+    posterUrl: typeof itemData?.image === 'string' ? itemData.image : undefined,
+    plot: typeof itemData?.description === 'string' ? itemData.description : undefined,
+    certificate: typeof itemData?.contentRating === 'string' ? itemData.contentRating : undefined,
+  });
+}
+
 /**
  * Parse IMDB list page HTML and extract items
  */
@@ -415,7 +580,7 @@ export function parseIMDBListPage(html: string): IMDBItem[] {
               : undefined);
 
           if (title) {
-            items.push({ imdbId: id, title, type, year });
+            items.push({ imdbId: id, title, type, year, ...extractNextDataMetadata(node) });
             seenIds.add(id);
           }
         };
@@ -520,6 +685,13 @@ export function parseIMDBListPage(html: string): IMDBItem[] {
                 if (!existing.year && itemData.datePublished) {
                   existing.year = parseInt(itemData.datePublished.substring(0, 4));
                 }
+                // Only fill metadata the Next.js data didn't already provide
+                const metadata = extractJsonLdMetadata(itemData);
+                for (const key of Object.keys(metadata) as Array<keyof IMDBItemMetadata>) {
+                  if (existing[key] === undefined) {
+                    Object.assign(existing, { [key]: metadata[key] });
+                  }
+                }
               } else if (!seenIds.has(imdbId)) {
                 seenIds.add(imdbId);
                 items.push({
@@ -529,6 +701,7 @@ export function parseIMDBListPage(html: string): IMDBItem[] {
                   year: itemData.datePublished
                     ? parseInt(itemData.datePublished.substring(0, 4))
                     : undefined,
+                  ...extractJsonLdMetadata(itemData),
                 });
               }
             }
@@ -540,7 +713,7 @@ export function parseIMDBListPage(html: string): IMDBItem[] {
     }
   });
 
-  console.log(`[IMDB] Parsed ${items.length} items from list`);
+  log.info(`Parsed ${items.length} items from list`);
   return items;
 }
 
@@ -559,3 +732,10 @@ export function filterPotentialTVShows(items: IMDBItem[]): IMDBItem[] {
     (item) => item.type === 'tvSeries' || item.type === 'tvMiniSeries' || item.type === 'unknown'
   );
 }
+
+/**
+ * Filter IMDB items to only movies
+ */
+export function filterMovies(items: IMDBItem[]): IMDBItem[] {
+  return items.filter((item) => item.type === 'movie');
+}
@@ -1,21 +1,305 @@
+import crypto from 'node:crypto';
 import express, { Request, Response, NextFunction } from 'express';
 import dotenv from 'dotenv';
-import { fetchIMDBList, filterTVShows } from './imdb.js';
-import { isTMDBConfigured, getCacheStats, clearCache, convertToSonarrFormat } from './tvdb.js';
+import { fetchIMDBList, filterMovies, filterTVShows, parseListId } from './imdb.js';
+import type { FetchIMDBListOptions } from './imdb.js';
+import type { IMDBItem, SonarrSeries } from './types.js';
+import { createLogger, runWithRequestId } from './logger.js';
+import { buildResolutionReport } from './report.js';
+import { getListChanges, parseSince } from './snapshots.js';
+import { buildFeedEntries, parseFeedLimit, renderAtom, renderRss } from './feed.js';
+import {
+  getNotificationFailures,
+  isNotificationConfigured,
+  validateNotificationTargets,
+} from './notify.js';
+import { applyItemFilters, parseItemFilters } from './filters.js';
+import { fetchCombinedItems, fetchCombinedList, parseCombinedQuery } from './combine.js';
+import { getConfig, getProfile, loadConfig, watchConfig } from './config.js';
+import { fetchProfileItems, fetchProfileSeries, profileForList } from './profiles.js';
+import { isSonarrConfigured } from './sonarr.js';
+import { isSyncRunning, planSync, syncProfile } from './sync.js';
+import { cleanupList, getCleanupAudit } from './cleanup.js';
+import { findMissingFromList, toImdbImportCsv } from './reverse.js';
+import {
+  isTMDBConfigured,
+  isResolverConfigured,
+  getCacheStats,
+  getMovieCacheStats,
+  getResolverChain,
+  clearCache,
+  convertToSonarrFormat,
+  convertToRadarrFormat,
+  applyCachedClassifications,
+  classifyUnknownItems,
+} from './tvdb.js';
+import { getTMDBClientStats } from './tmdb.js';
+import { getSingleFlightStats } from './singleflight.js';
+import { authorize, getAuthStatus } from './auth.js';
+import {
+  METRICS_CONTENT_TYPE,
+  createCounter,
+  createGauge,
+  createHistogram,
+  renderMetrics,
+} from './metrics.js';
+import {
+  clearProfileOutputs,
+  clearTvOutputs,
+  getPrewarmStatus,
+  getTvOutput,
+  parseProfileOutputId,
+  profileOutputId,
+  startPrewarm,
+} from './prewarm.js';
+import {
+  addExclusion,
+  deleteExclusion,
+  deleteMappingOverride,
+  getOverrideStats,
+  listExclusions,
+  listMappingOverrides,
+  parseExclusion,
+  parseMappingOverride,
+  setMappingOverride,
+} from './overrides.js';
+
+const configLog = createLogger('Config');
+const authLog = createLogger('Auth');
+const apiLog = createLogger('API');
+const httpLog = createLogger('HTTP');
 
 dotenv.config();
 const app = express();
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
+const requestsMetric = createCounter(
+  'imdbarr_http_requests_total',
+  'HTTP requests by method, route and status code',
+  ['method', 'route', 'status']
+);
+const requestDurationMetric = createHistogram(
+  'imdbarr_http_request_duration_seconds',
+  'HTTP request latency by method and route',
+  ['method', 'route']
+);
+const listSeriesMetric = createGauge(
+  'imdbarr_list_series',
+  'Series in the latest Sonarr output of each list',
+  ['list']
+);
+
+// Sent by TV endpoints when no resolver in RESOLVER_CHAIN can map IMDB IDs to TVDB IDs
+const NO_RESOLVER_RESPONSE = {
+  error: 'No resolver configured',
+  message:
+    'Set TMDB_API_KEY, TVDB_API_KEY or MAPPING_FILE for a resolver in RESOLVER_CHAIN to enable Sonarr format with TVDB IDs.',
+};
+
+// Validate the config file and resolver chain up front so mistakes fail at startup, not on a poll
+try {
+  loadConfig();
+  getResolverChain();
+} catch (error) {
+  configLog.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
 // Middleware for JSON responses
 app.use(express.json());
 
-// Request logging
-app.use((req: Request, _res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
+// Request logging with a request ID, taken from the client's X-Request-Id when it sends a usable one
+// Everything logged while the request is served carries the ID
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+  res.set('X-Request-Id', requestId);
+
+  runWithRequestId(requestId, () => {
+    httpLog.info(`${req.method} ${req.path}`);
+    next();
+  });
+});
+
+// Request metrics, labelled with the route pattern so list IDs don't create a series each
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    requestsMetric.inc({ method: req.method, route, status: res.statusCode });
+    requestDurationMetric.observe({ method: req.method, route }, seconds);
+  });
+  next();
+});
+
+// API key authentication; the apikey parameter is removed so it never reaches filters or cache keys
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const bearer = req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const queryKey = typeof req.query.apikey === 'string' ? req.query.apikey : undefined;
+  delete req.query.apikey;
+
+  const result = authorize(req.method, req.path, req.get('X-Api-Key') || bearer || queryKey);
+  if (!result.ok) {
+    if (result.status === 401) res.set('WWW-Authenticate', 'ApiKey');
+    authLog.warn(`${req.method} ${req.path} rejected: ${result.error}`);
+    return res.status(result.status).json({ error: result.error, message: result.message });
+  }
   next();
 });
 
+/**
+ * Parse the pagination options shared by all list endpoints
+ */
+function parseFetchOptions(req: Pick<Request, 'query'>): FetchIMDBListOptions {
+  const fetchAll = req.query.fetchAll !== 'false'; // Default: true
+  const maxItems = req.query.maxItems
+    ? Math.max(1, parseInt(String(req.query.maxItems), 10))
+    : undefined;
+  const page =
+    !fetchAll && req.query.page ? Math.max(1, parseInt(String(req.query.page), 10)) : undefined;
+
+  return { fetchAll, maxItems, page };
+}
+
+/**
+ * Apply the optional ?limit=N&offset=N slicing to a result set
+ */
+function sliceResults<T>(
+  req: Pick<Request, 'query'>,
+  items: T[]
+): { limit: number | undefined; offset: number; paged: T[] } {
+  const limit = req.query.limit ? Math.max(0, parseInt(String(req.query.limit), 10)) : undefined;
+  const offset = req.query.offset ? Math.max(0, parseInt(String(req.query.offset), 10)) : 0;
+  const paged =
+    typeof limit === 'number' && limit > 0 ? items.slice(offset, offset + limit) : items;
+
+  return { limit, offset, paged };
+}
+
+/**
+ * Mark where each item's type came from; with ?includeUnknown=true, items IMDB gave
+ * no type are first looked up on TMDB so the TV shows among them are kept
+ */
+async function classifyItems(items: IMDBItem[], query: Request['query']): Promise<IMDBItem[]> {
+  return query.includeUnknown === 'true'
+    ? classifyUnknownItems(items)
+    : applyCachedClassifications(items);
+}
+
+/**
+ * Build the Sonarr output of a list for a /tv request's query
+ * The query's filters must already have been validated
+ */
+async function buildTvSeries(listId: string, query: Request['query']): Promise<SonarrSeries[]> {
+  const parsedFilters = parseItemFilters(query);
+  if ('error' in parsedFilters) {
+    throw new Error(parsedFilters.error);
+  }
+
+  const fetched = await fetchIMDBList(listId, parseFetchOptions({ query }));
+  const classified = await classifyItems(fetched, query);
+  const tvShows = filterTVShows(applyItemFilters(classified, parsedFilters.filters));
+
+  // Optional pagination
+  const { paged } = sliceResults({ query }, tvShows);
+
+  return convertToSonarrFormat(paged, listId);
+}
+
+/**
+ * Build the Sonarr output of a combined list for a /combined/tv request's query
+ * The query's lists, operation and filters must already have been validated
+ */
+async function buildCombinedSeries(query: Request['query']): Promise<SonarrSeries[]> {
+  const combined = parseCombinedQuery(query);
+  if ('error' in combined) {
+    throw new Error(combined.error);
+  }
+  const parsedFilters = parseItemFilters(query);
+  if ('error' in parsedFilters) {
+    throw new Error(parsedFilters.error);
+  }
+
+  const { listIds, operation } = combined;
+  const fetchOptions = parseFetchOptions({ query });
+  const { items: fetched, sources } = await fetchCombinedItems(listIds, operation, fetchOptions);
+  const classified = await classifyItems(fetched, query);
+  const tvShows = filterTVShows(applyItemFilters(classified, parsedFilters.filters));
+
+  // Optional pagination
+  const { paged } = sliceResults({ query }, tvShows);
+
+  // Each show is checked against the exclusions of the source lists it is on
+  return convertToSonarrFormat(paged, sources);
+}
+
+/**
+ * Build the Sonarr output stored under an ID: a list, a profile or a combined list
+ */
+async function buildTvOutput(listId: string, query: Request['query']): Promise<SonarrSeries[]> {
+  if (listId === 'combined') {
+    return buildCombinedSeries(query);
+  }
+
+  const profileName = parseProfileOutputId(listId);
+  if (profileName === undefined) {
+    return buildTvSeries(listId, query);
+  }
+  const profile = getProfile(profileName);
+  if (!profile) {
+    throw new Error(`No profile named "${profileName}" in the config file`);
+  }
+  return fetchProfileSeries(profile);
+}
+
+/**
+ * Respond with the Sonarr output of a list, profile or combined list, stored or fresh,
+ * and headers saying how old it is
+ */
+async function sendTvOutput(req: Request, res: Response, listId: string): Promise<void> {
+  const output = await getTvOutput(listId, req.query, (id, query) =>
+    buildTvOutput(id, query as Request['query'])
+  );
+
+  res.set('Age', String(Math.max(0, Math.floor((Date.now() - output.generatedAt) / 1000))));
+  res.set('Last-Modified', new Date(output.generatedAt).toUTCString());
+  res.set('X-Cache-Status', output.status);
+  listSeriesMetric.set({ list: listId }, output.series.length);
+
+  // Return array directly for Sonarr compatibility
+  res.json(output.series);
+}
+
+/**
+ * Fetch a list and respond with a feed of its recent additions
+ * RSS by default, Atom with ?format=atom
+ */
+async function sendListFeed(
+  req: Request,
+  res: Response,
+  listId: string,
+  feed: { title: string; link: string }
+): Promise<void> {
+  const items = await fetchIMDBList(listId, { fetchAll: true });
+  const entries = await buildFeedEntries(listId, items, parseFeedLimit(req.query.limit));
+
+  // The API key is left out of the self link, so sharing the feed doesn't share the key
+  const params = new URLSearchParams(req.originalUrl.split('?')[1] ?? '');
+  params.delete('apikey');
+  const search = params.toString();
+  const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
+  const selfUrl = `${baseUrl}${req.path}${search ? `?${search}` : ''}`;
+
+  if (req.query.format === 'atom') {
+    res.type('application/atom+xml');
+    res.send(renderAtom({ ...feed, selfUrl, id: `urn:imdbarr:${listId}` }, entries));
+  } else {
+    res.type('application/rss+xml');
+    res.send(renderRss({ ...feed, selfUrl }, entries));
+  }
+}
+
 /**
  * Health check endpoint
  */
@@ -23,10 +307,29 @@ app.get('/health', (_req: Request, res: Response) => {
   res.json({
     status: 'ok',
     tmdbConfigured: isTMDBConfigured(),
+    sonarrConfigured: isSonarrConfigured(),
+    notificationsConfigured: isNotificationConfigured(),
+    resolvers: getResolverChain().map((resolver) => ({
+      name: resolver.name,
+      configured: resolver.isConfigured(),
+    })),
+    overrides: getOverrideStats(),
+    auth: getAuthStatus(),
+    tmdb: getTMDBClientStats(),
+    coalescing: getSingleFlightStats(),
+    prewarm: getPrewarmStatus(),
     cache: getCacheStats(),
+    movieCache: getMovieCacheStats(),
   });
 });
 
+/**
+ * Prometheus metrics
+ */
+app.get('/metrics', (_req: Request, res: Response) => {
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
 /**
  * API documentation
  */
@@ -48,6 +351,27 @@ app.get('/', (_req: Request, res: Response) => {
         example: `${baseUrl}/watchlist/ur12345678/tv`,
         sonarrCompatible: true,
       },
+      watchlistReport: {
+        url: `${baseUrl}/watchlist/{userId}/tv/report`,
+        description: 'Explain the resolution outcome of every watchlist item',
+        example: `${baseUrl}/watchlist/ur12345678/tv/report`,
+      },
+      watchlistChanges: {
+        url: `${baseUrl}/watchlist/{userId}/changes?since={date|7d}`,
+        description: 'Items added to and removed from the watchlist since a date',
+        example: `${baseUrl}/watchlist/ur12345678/changes?since=7d`,
+      },
+      watchlistFeed: {
+        url: `${baseUrl}/watchlist/{userId}/feed.xml`,
+        description: 'RSS feed of recent watchlist additions (?format=atom for Atom)',
+        example: `${baseUrl}/watchlist/ur12345678/feed.xml`,
+      },
+      watchlistMovies: {
+        url: `${baseUrl}/watchlist/{userId}/movies`,
+        description: 'Get movies from watchlist in Radarr format (JSON array)',
+        example: `${baseUrl}/watchlist/ur12345678/movies`,
+        radarrCompatible: true,
+      },
       list: {
         url: `${baseUrl}/list/{listId}`,
         description: 'Get all items from IMDB list with complete metadata',
@@ -59,15 +383,88 @@ app.get('/', (_req: Request, res: Response) => {
         example: `${baseUrl}/list/ls036390872/tv`,
         sonarrCompatible: true,
       },
+      listReport: {
+        url: `${baseUrl}/list/{listId}/tv/report`,
+        description: 'Explain the resolution outcome of every list item',
+        example: `${baseUrl}/list/ls036390872/tv/report`,
+      },
+      listChanges: {
+        url: `${baseUrl}/list/{listId}/changes?since={date|7d}`,
+        description: 'Items added to and removed from the list since a date',
+        example: `${baseUrl}/list/ls036390872/changes?since=2024-05-01`,
+      },
+      listFeed: {
+        url: `${baseUrl}/list/{listId}/feed.xml`,
+        description: 'RSS feed of recent list additions (?format=atom for Atom)',
+        example: `${baseUrl}/list/ls036390872/feed.xml`,
+      },
+      listMovies: {
+        url: `${baseUrl}/list/{listId}/movies`,
+        description: 'Get movies from IMDB list in Radarr format (JSON array)',
+        example: `${baseUrl}/list/ls036390872/movies`,
+        radarrCompatible: true,
+      },
+      profileTV: {
+        url: `${baseUrl}/profiles/{name}/tv`,
+        description: 'Get TV shows of a named profile from CONFIG_FILE in Sonarr format',
+        example: `${baseUrl}/profiles/dramas/tv`,
+        sonarrCompatible: true,
+      },
+      sync: {
+        url: `${baseUrl}/sync/{profile}`,
+        method: 'POST',
+        description:
+          "Add a profile's TV shows to Sonarr with its own quality profile, root folder, monitor mode and tags",
+        example: `${baseUrl}/sync/dramas`,
+      },
+      syncPlan: {
+        url: `${baseUrl}/sync/{profile|listId}/plan`,
+        description:
+          'Dry run: series that would be added, that are already in Sonarr, and that were synced but have left the list',
+        example: `${baseUrl}/sync/ur12345678/plan`,
+      },
+      syncCleanup: {
+        url: `${baseUrl}/sync/{listId}/cleanup?dryRun=true`,
+        method: 'POST',
+        description:
+          'Unmonitor or delete Sonarr series that left the list since the last run, if lightly monitored and without files',
+        example: `${baseUrl}/sync/ur12345678/cleanup`,
+      },
+      syncCleanupAudit: {
+        url: `${baseUrl}/sync/{listId}/cleanup/audit`,
+        description: 'Audit log of every cleanup decision for a list, newest first',
+        example: `${baseUrl}/sync/ur12345678/cleanup/audit`,
+      },
+      syncMissing: {
+        url: `${baseUrl}/sync/{listId}/missing.csv`,
+        description:
+          'Sonarr series missing from an IMDB list, as a CSV for IMDB list import (or /missing for JSON)',
+        example: `${baseUrl}/sync/ls036390872/missing.csv`,
+      },
+      combined: {
+        url: `${baseUrl}/combined?lists={id},{id}&op={union|intersection|difference}`,
+        description: 'Get all items from several lists combined with a set operation',
+        example: `${baseUrl}/combined?lists=ur12345678,ls036390872&op=union`,
+      },
+      combinedTV: {
+        url: `${baseUrl}/combined/tv?lists={id},{id}&op={union|intersection|difference}`,
+        description: 'Get TV shows from several combined lists in Sonarr format (JSON array)',
+        example: `${baseUrl}/combined/tv?lists=ur12345678,ls036390872&op=difference`,
+        sonarrCompatible: true,
+      },
     },
     requirements: {
       imdb: 'Your IMDB watchlist must be set to PUBLIC',
       tmdb: 'TMDB_API_KEY environment variable must be set (free at themoviedb.org)',
     },
     notes: {
+      auth: 'Admin endpoints need an admin key (ADMIN_API_KEYS); list endpoints need a key once API_KEYS are set. Send it in the X-Api-Key header or as ?apikey=',
       formats: {
         base: 'Base endpoints (/watchlist, /list) return raw IMDB metadata',
         sonarr: '/tv endpoints return Sonarr-compatible format with TVDB IDs',
+        unknown:
+          'Use ?includeUnknown=true on /tv endpoints to look up items IMDB gives no type on TMDB and keep the TV shows',
+        radarr: '/movies endpoints return Radarr-compatible format with TMDB IDs',
       },
       pagination: {
         fetchAll:
@@ -76,6 +473,14 @@ app.get('/', (_req: Request, res: Response) => {
         page: 'Use ?page=N to fetch a specific page (1-indexed, only when fetchAll=false)',
         legacy: 'Also supports ?limit=N&offset=N for slicing the final result set',
       },
+      filtering: {
+        genres:
+          'Use ?genres=Drama,-Reality to include any listed genre and exclude "-" prefixed ones',
+        rating: 'Use ?minRating=N and/or ?maxRating=N (0-10)',
+        votes: 'Use ?minVotes=N to require a minimum number of IMDB votes',
+        year: 'Use ?yearFrom=YYYY and/or ?yearTo=YYYY (inclusive)',
+        types: 'Use ?types=tvSeries,tvMiniSeries to keep only those item types',
+      },
     },
   });
 });
@@ -91,21 +496,17 @@ app.get('/watchlist/:userId', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
-    // Pagination options
-    const fetchAll = req.query.fetchAll !== 'false'; // Default: true
-    const maxItems = req.query.maxItems
-      ? Math.max(1, parseInt(String(req.query.maxItems), 10))
-      : undefined;
-    const page =
-      !fetchAll && req.query.page ? Math.max(1, parseInt(String(req.query.page), 10)) : undefined;
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
 
-    const items = await fetchIMDBList(userId, { fetchAll, maxItems, page });
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchIMDBList(userId, fetchOptions);
+    const items = applyItemFilters(applyCachedClassifications(fetched), parsedFilters.filters);
 
     // Optional pagination
-    const limit = req.query.limit ? Math.max(0, parseInt(String(req.query.limit), 10)) : undefined;
-    const offset = req.query.offset ? Math.max(0, parseInt(String(req.query.offset), 10)) : 0;
-    const paged =
-      typeof limit === 'number' && limit > 0 ? items.slice(offset, offset + limit) : items;
+    const { limit, offset, paged } = sliceResults(req, items);
 
     res.json({
       userId,
@@ -115,7 +516,7 @@ app.get('/watchlist/:userId', async (req: Request, res: Response) => {
       items: paged,
     });
   } catch (error) {
-    console.error('[API] Error fetching watchlist:', error);
+    apiLog.error('Error fetching watchlist:', error);
     res.status(500).json({
       error: 'Failed to fetch watchlist',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -127,42 +528,141 @@ app.get('/watchlist/:userId', async (req: Request, res: Response) => {
  * Get TV shows from IMDB watchlist in Sonarr-compatible format
  */
 app.get('/watchlist/:userId/tv', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    // Stored output of profiles and combined lists is kept under IDs that aren't list IDs
+    if (!parseListId(userId)) {
+      return res.status(400).json({
+        error: 'Invalid list ID',
+        message: `"${userId}" is not an IMDB list ID. Expected format: ur12345678 or ls12345678`,
+      });
+    }
+
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
+
+    await sendTvOutput(req, res, userId);
+  } catch (error) {
+    apiLog.error('Error fetching watchlist TV shows:', error);
+    res.status(500).json({
+      error: 'Failed to fetch watchlist TV shows',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Explain what happened to every watchlist item on its way to Sonarr
+ */
+app.get('/watchlist/:userId/tv/report', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchIMDBList(userId, fetchOptions);
+    // Classified like the /tv endpoint, so ?includeUnknown=true reports the same shows
+    const items = await classifyItems(fetched, req.query);
+    const report = await buildResolutionReport(items, userId);
+
+    res.json({ userId, ...report });
+  } catch (error) {
+    apiLog.error('Error building watchlist report:', error);
+    res.status(500).json({
+      error: 'Failed to build watchlist report',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get items added to and removed from a watchlist since a point in time
+ * The watchlist is fetched first so the latest snapshot is current
+ */
+app.get('/watchlist/:userId/changes', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    const parsed = parseSince(req.query.since);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: 'Invalid since', message: parsed.error });
+    }
+
+    await fetchIMDBList(userId, { fetchAll: true });
+    res.json(getListChanges(userId, parsed.since));
+  } catch (error) {
+    apiLog.error('Error getting watchlist changes:', error);
+    res.status(500).json({
+      error: 'Failed to get watchlist changes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Feed of recent watchlist additions
+ */
+app.get('/watchlist/:userId/feed.xml', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    await sendListFeed(req, res, userId, {
+      title: `IMDB watchlist ${userId}`,
+      link: `https://www.imdb.com/user/${userId}/watchlist`,
+    });
+  } catch (error) {
+    apiLog.error('Error building watchlist feed:', error);
+    res.status(500).json({
+      error: 'Failed to build watchlist feed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get movies from IMDB watchlist in Radarr-compatible format
+ */
+app.get('/watchlist/:userId/movies', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
     if (!isTMDBConfigured()) {
       return res.status(503).json({
         error: 'TMDB API key not configured',
-        message: 'Set TMDB_API_KEY env variable to enable Sonarr format with TVDB IDs.',
+        message: 'Set TMDB_API_KEY env variable to enable Radarr format with TMDB IDs.',
       });
     }
 
-    // Pagination options
-    const fetchAll = req.query.fetchAll !== 'false'; // Default: true
-    const maxItems = req.query.maxItems
-      ? Math.max(1, parseInt(String(req.query.maxItems), 10))
-      : undefined;
-    const page =
-      !fetchAll && req.query.page ? Math.max(1, parseInt(String(req.query.page), 10)) : undefined;
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
 
-    const allItems = await fetchIMDBList(userId, { fetchAll, maxItems, page });
-    const tvShows = filterTVShows(allItems);
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchIMDBList(userId, fetchOptions);
+    const allItems = applyItemFilters(fetched, parsedFilters.filters);
+    const movies = filterMovies(allItems);
 
     // Optional pagination
-    const limit = req.query.limit ? Math.max(0, parseInt(String(req.query.limit), 10)) : undefined;
-    const offset = req.query.offset ? Math.max(0, parseInt(String(req.query.offset), 10)) : 0;
-    const paged =
-      typeof limit === 'number' && limit > 0 ? tvShows.slice(offset, offset + limit) : tvShows;
+    const { paged } = sliceResults(req, movies);
 
-    // Convert to Sonarr format
-    const sonarrSeries = await convertToSonarrFormat(paged);
+    const radarrMovies = await convertToRadarrFormat(paged);
 
-    // Return array directly for Sonarr compatibility
-    res.json(sonarrSeries);
+    // Return array directly for Radarr compatibility
+    res.json(radarrMovies);
   } catch (error) {
-    console.error('[API] Error fetching watchlist TV shows:', error);
+    apiLog.error('Error fetching watchlist movies:', error);
     res.status(500).json({
-      error: 'Failed to fetch watchlist TV shows',
+      error: 'Failed to fetch watchlist movies',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
@@ -179,21 +679,17 @@ app.get('/list/:listId', async (req: Request, res: Response) => {
   try {
     const { listId } = req.params;
 
-    // Pagination options
-    const fetchAll = req.query.fetchAll !== 'false'; // Default: true
-    const maxItems = req.query.maxItems
-      ? Math.max(1, parseInt(String(req.query.maxItems), 10))
-      : undefined;
-    const page =
-      !fetchAll && req.query.page ? Math.max(1, parseInt(String(req.query.page), 10)) : undefined;
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
 
-    const items = await fetchIMDBList(listId, { fetchAll, maxItems, page });
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchIMDBList(listId, fetchOptions);
+    const items = applyItemFilters(applyCachedClassifications(fetched), parsedFilters.filters);
 
     // Optional pagination
-    const limit = req.query.limit ? Math.max(0, parseInt(String(req.query.limit), 10)) : undefined;
-    const offset = req.query.offset ? Math.max(0, parseInt(String(req.query.offset), 10)) : 0;
-    const paged =
-      typeof limit === 'number' && limit > 0 ? items.slice(offset, offset + limit) : items;
+    const { limit, offset, paged } = sliceResults(req, items);
 
     res.json({
       listId,
@@ -203,7 +699,7 @@ app.get('/list/:listId', async (req: Request, res: Response) => {
       items: paged,
     });
   } catch (error) {
-    console.error('[API] Error fetching list:', error);
+    apiLog.error('Error fetching list:', error);
     res.status(500).json({
       error: 'Failed to fetch list',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -215,41 +711,468 @@ app.get('/list/:listId', async (req: Request, res: Response) => {
  * Get TV shows from IMDB list in Sonarr-compatible format
  */
 app.get('/list/:listId/tv', async (req: Request, res: Response) => {
+  try {
+    const { listId } = req.params;
+
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    // Stored output of profiles and combined lists is kept under IDs that aren't list IDs
+    if (!parseListId(listId)) {
+      return res.status(400).json({
+        error: 'Invalid list ID',
+        message: `"${listId}" is not an IMDB list ID. Expected format: ur12345678 or ls12345678`,
+      });
+    }
+
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
+
+    await sendTvOutput(req, res, listId);
+  } catch (error) {
+    apiLog.error('Error fetching list TV shows:', error);
+    res.status(500).json({
+      error: 'Failed to fetch list TV shows',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Explain what happened to every list item on its way to Sonarr
+ */
+app.get('/list/:listId/tv/report', async (req: Request, res: Response) => {
+  try {
+    const { listId } = req.params;
+
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchIMDBList(listId, fetchOptions);
+    // Classified like the /tv endpoint, so ?includeUnknown=true reports the same shows
+    const items = await classifyItems(fetched, req.query);
+    const report = await buildResolutionReport(items, listId);
+
+    res.json({ listId, ...report });
+  } catch (error) {
+    apiLog.error('Error building list report:', error);
+    res.status(500).json({
+      error: 'Failed to build list report',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get items added to and removed from a list since a point in time
+ * The list is fetched first so the latest snapshot is current
+ */
+app.get('/list/:listId/changes', async (req: Request, res: Response) => {
+  try {
+    const { listId } = req.params;
+
+    const parsed = parseSince(req.query.since);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: 'Invalid since', message: parsed.error });
+    }
+
+    await fetchIMDBList(listId, { fetchAll: true });
+    res.json(getListChanges(listId, parsed.since));
+  } catch (error) {
+    apiLog.error('Error getting list changes:', error);
+    res.status(500).json({
+      error: 'Failed to get list changes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Feed of recent list additions
+ */
+app.get('/list/:listId/feed.xml', async (req: Request, res: Response) => {
+  try {
+    const { listId } = req.params;
+    await sendListFeed(req, res, listId, {
+      title: `IMDB list ${listId}`,
+      link: `https://www.imdb.com/list/${listId}/`,
+    });
+  } catch (error) {
+    apiLog.error('Error building list feed:', error);
+    res.status(500).json({
+      error: 'Failed to build list feed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get movies from IMDB list in Radarr-compatible format
+ */
+app.get('/list/:listId/movies', async (req: Request, res: Response) => {
   try {
     const { listId } = req.params;
 
     if (!isTMDBConfigured()) {
       return res.status(503).json({
         error: 'TMDB API key not configured',
-        message: 'Set TMDB_API_KEY env variable to enable Sonarr format with TVDB IDs.',
+        message: 'Set TMDB_API_KEY env variable to enable Radarr format with TMDB IDs.',
       });
     }
 
-    // Pagination options
-    const fetchAll = req.query.fetchAll !== 'false'; // Default: true
-    const maxItems = req.query.maxItems
-      ? Math.max(1, parseInt(String(req.query.maxItems), 10))
-      : undefined;
-    const page =
-      !fetchAll && req.query.page ? Math.max(1, parseInt(String(req.query.page), 10)) : undefined;
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
 
-    const items = await fetchIMDBList(listId, { fetchAll, maxItems, page });
-    const tvShows = filterTVShows(items);
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchIMDBList(listId, fetchOptions);
+    const items = applyItemFilters(fetched, parsedFilters.filters);
+    const movies = filterMovies(items);
 
     // Optional pagination
-    const limit = req.query.limit ? Math.max(0, parseInt(String(req.query.limit), 10)) : undefined;
-    const offset = req.query.offset ? Math.max(0, parseInt(String(req.query.offset), 10)) : 0;
-    const paged =
-      typeof limit === 'number' && limit > 0 ? tvShows.slice(offset, offset + limit) : tvShows;
+    const { paged } = sliceResults(req, movies);
 
-    const sonarrSeries = await convertToSonarrFormat(paged);
+    const radarrMovies = await convertToRadarrFormat(paged);
 
-    // Return array directly for Sonarr compatibility
-    res.json(sonarrSeries);
+    // Return array directly for Radarr compatibility
+    res.json(radarrMovies);
   } catch (error) {
-    console.error('[API] Error fetching list TV shows:', error);
+    apiLog.error('Error fetching list movies:', error);
     res.status(500).json({
-      error: 'Failed to fetch list TV shows',
+      error: 'Failed to fetch list movies',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * COMBINED ENDPOINTS
+ */
+
+/**
+ * Get all items from several IMDB lists combined with a set operation
+ */
+app.get('/combined', async (req: Request, res: Response) => {
+  try {
+    const combined = parseCombinedQuery(req.query);
+    if ('error' in combined) {
+      return res.status(400).json({ error: 'Invalid combined request', message: combined.error });
+    }
+
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
+
+    const { listIds, operation } = combined;
+    const fetchOptions = parseFetchOptions(req);
+    const fetched = await fetchCombinedList(listIds, operation, fetchOptions);
+    const items = applyItemFilters(applyCachedClassifications(fetched), parsedFilters.filters);
+
+    // Optional pagination
+    const { limit, offset, paged } = sliceResults(req, items);
+
+    res.json({
+      lists: listIds,
+      operation,
+      totalItems: items.length,
+      offset,
+      limit: limit ?? null,
+      items: paged,
+    });
+  } catch (error) {
+    apiLog.error('Error fetching combined lists:', error);
+    res.status(500).json({
+      error: 'Failed to fetch combined lists',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get TV shows from several IMDB lists combined with a set operation, in Sonarr format
+ */
+app.get('/combined/tv', async (req: Request, res: Response) => {
+  try {
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const combined = parseCombinedQuery(req.query);
+    if ('error' in combined) {
+      return res.status(400).json({ error: 'Invalid combined request', message: combined.error });
+    }
+
+    const parsedFilters = parseItemFilters(req.query);
+    if ('error' in parsedFilters) {
+      return res.status(400).json({ error: 'Invalid filter', message: parsedFilters.error });
+    }
+
+    await sendTvOutput(req, res, 'combined');
+  } catch (error) {
+    apiLog.error('Error fetching combined TV shows:', error);
+    res.status(500).json({
+      error: 'Failed to fetch combined TV shows',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PROFILE ENDPOINTS
+ */
+
+/**
+ * List the profiles defined in the config file
+ */
+app.get('/profiles', (_req: Request, res: Response) => {
+  const { profiles } = getConfig();
+  res.json({
+    profiles: Object.values(profiles).map(({ name, sources, operation, format }) => ({
+      name,
+      sources,
+      operation,
+      format,
+    })),
+  });
+});
+
+/**
+ * Get all items of a profile with complete metadata
+ */
+app.get('/profiles/:name', async (req: Request, res: Response) => {
+  try {
+    const profile = getProfile(req.params.name);
+    if (!profile) {
+      return res.status(404).json({
+        error: 'Profile not found',
+        message: `No profile named "${req.params.name}" in the config file`,
+      });
+    }
+
+    const items = applyCachedClassifications(await fetchProfileItems(profile));
+
+    res.json({
+      profile: profile.name,
+      totalItems: items.length,
+      items,
+    });
+  } catch (error) {
+    apiLog.error('Error fetching profile:', error);
+    res.status(500).json({
+      error: 'Failed to fetch profile',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get TV shows of a profile in Sonarr-compatible format
+ */
+app.get('/profiles/:name/tv', async (req: Request, res: Response) => {
+  try {
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const profile = getProfile(req.params.name);
+    if (!profile) {
+      return res.status(404).json({
+        error: 'Profile not found',
+        message: `No profile named "${req.params.name}" in the config file`,
+      });
+    }
+
+    await sendTvOutput(req, res, profileOutputId(profile.name));
+  } catch (error) {
+    apiLog.error('Error fetching profile TV shows:', error);
+    res.status(500).json({
+      error: 'Failed to fetch profile TV shows',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * SYNC ENDPOINTS
+ */
+
+/**
+ * Show what a sync would change without writing to Sonarr
+ * Accepts a profile name or a bare IMDB list ID
+ */
+app.get('/sync/:listId/plan', async (req: Request, res: Response) => {
+  try {
+    if (!isSonarrConfigured()) {
+      return res.status(503).json({
+        error: 'Sonarr not configured',
+        message: 'Set SONARR_URL and SONARR_API_KEY env variables to enable sync.',
+      });
+    }
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const { listId } = req.params;
+    const parsed = parseListId(listId);
+    const profile =
+      getProfile(listId) ?? (parsed && parsed.type !== 'url' ? profileForList(listId) : undefined);
+    if (!profile) {
+      return res.status(404).json({
+        error: 'Profile not found',
+        message: `"${listId}" is neither a profile in the config file nor an IMDB list ID`,
+      });
+    }
+
+    const plan = await planSync(profile);
+    res.json(plan);
+  } catch (error) {
+    apiLog.error('Error planning sync:', error);
+    res.status(500).json({
+      error: 'Failed to plan sync',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Unmonitor or delete Sonarr series for shows that left an IMDB list since the last run
+ */
+app.post('/sync/:listId/cleanup', async (req: Request, res: Response) => {
+  try {
+    if (!isSonarrConfigured()) {
+      return res.status(503).json({
+        error: 'Sonarr not configured',
+        message: 'Set SONARR_URL and SONARR_API_KEY env variables to enable sync.',
+      });
+    }
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const { listId } = req.params;
+    const parsed = parseListId(listId);
+    if (!parsed || parsed.type === 'url') {
+      return res.status(400).json({
+        error: 'Invalid list ID',
+        message: `"${listId}" is not an IMDB list ID. Expected format: ur12345678 or ls12345678`,
+      });
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const result = await cleanupList(listId, { dryRun });
+    res.json({ ...result, dryRun });
+  } catch (error) {
+    apiLog.error('Error cleaning up list:', error);
+    res.status(500).json({
+      error: 'Failed to clean up list',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get the audit log of cleanup decisions for a list
+ */
+app.get('/sync/:listId/cleanup/audit', (req: Request, res: Response) => {
+  const records = getCleanupAudit(req.params.listId);
+  res.json({ listId: req.params.listId, totalRecords: records.length, records });
+});
+
+/**
+ * Report Sonarr series missing from an IMDB list, as JSON or as a CSV for IMDB's list import
+ */
+app.get(
+  ['/sync/:listId/missing', '/sync/:listId/missing.csv'],
+  async (req: Request, res: Response) => {
+    try {
+      if (!isSonarrConfigured()) {
+        return res.status(503).json({
+          error: 'Sonarr not configured',
+          message: 'Set SONARR_URL and SONARR_API_KEY env variables to enable sync.',
+        });
+      }
+      if (!isTMDBConfigured()) {
+        return res.status(503).json({
+          error: 'TMDB API key not configured',
+          message: 'Set TMDB_API_KEY env variable to resolve IMDB IDs of Sonarr series.',
+        });
+      }
+
+      const { listId } = req.params;
+      const parsed = parseListId(listId);
+      if (!parsed || parsed.type === 'url') {
+        return res.status(400).json({
+          error: 'Invalid list ID',
+          message: `"${listId}" is not an IMDB list ID. Expected format: ur12345678 or ls12345678`,
+        });
+      }
+
+      const report = await findMissingFromList(listId);
+      if (!req.path.endsWith('.csv')) {
+        return res.json(report);
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${listId}-missing.csv"`);
+      res.send(toImdbImportCsv(report.missing));
+    } catch (error) {
+      apiLog.error('Error finding series missing from list:', error);
+      res.status(500).json({
+        error: 'Failed to compare Sonarr with list',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * Push a profile's TV shows into Sonarr using the profile's add options
+ */
+app.post('/sync/:profile', async (req: Request, res: Response) => {
+  try {
+    if (!isSonarrConfigured()) {
+      return res.status(503).json({
+        error: 'Sonarr not configured',
+        message: 'Set SONARR_URL and SONARR_API_KEY env variables to enable sync.',
+      });
+    }
+    if (!isResolverConfigured()) {
+      return res.status(503).json(NO_RESOLVER_RESPONSE);
+    }
+
+    const profile = getProfile(req.params.profile);
+    if (!profile) {
+      return res.status(404).json({
+        error: 'Profile not found',
+        message: `No profile named "${req.params.profile}" in the config file`,
+      });
+    }
+    if (!profile.sonarr) {
+      return res.status(400).json({
+        error: 'Profile has no Sonarr options',
+        message: `Add a "sonarr" block to profile "${profile.name}" to enable sync.`,
+      });
+    }
+    if (isSyncRunning(profile.name)) {
+      return res.status(409).json({
+        error: 'Sync already running',
+        message: `A sync is already running for profile "${profile.name}".`,
+      });
+    }
+
+    const result = await syncProfile(profile);
+    res.json(result);
+  } catch (error) {
+    apiLog.error('Error syncing profile:', error);
+    res.status(500).json({
+      error: 'Failed to sync profile',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
@@ -260,14 +1183,99 @@ app.get('/list/:listId/tv', async (req: Request, res: Response) => {
  */
 app.post('/admin/cache/clear', (_req: Request, res: Response) => {
   clearCache();
+  clearTvOutputs();
   res.json({ message: 'Cache cleared', stats: getCacheStats() });
 });
 
+/**
+ * Admin endpoint to list mapping overrides
+ */
+app.get('/admin/overrides', (_req: Request, res: Response) => {
+  const overrides = listMappingOverrides();
+  res.json({ totalOverrides: overrides.length, overrides });
+});
+
+/**
+ * Admin endpoint to pin an IMDB ID to a TVDB series
+ * Stored Sonarr output is dropped so the next /tv request uses the override
+ */
+app.put('/admin/overrides/:imdbId', (req: Request, res: Response) => {
+  const parsed = parseMappingOverride(req.params.imdbId, req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: 'Invalid override', message: parsed.error });
+  }
+
+  setMappingOverride(parsed.override);
+  clearTvOutputs();
+  res.json(parsed.override);
+});
+
+/**
+ * Admin endpoint to remove a mapping override
+ */
+app.delete('/admin/overrides/:imdbId', (req: Request, res: Response) => {
+  if (!deleteMappingOverride(req.params.imdbId)) {
+    return res.status(404).json({
+      error: 'Override not found',
+      message: `No override for ${req.params.imdbId}`,
+    });
+  }
+
+  clearTvOutputs();
+  res.json({ message: `Override for ${req.params.imdbId} removed` });
+});
+
+/**
+ * Admin endpoint to list exclusions, optionally only those that apply to ?listId=
+ */
+app.get('/admin/exclusions', (req: Request, res: Response) => {
+  const listId = req.query.listId ? String(req.query.listId) : undefined;
+  const exclusions = listExclusions(listId);
+  res.json({ totalExclusions: exclusions.length, exclusions });
+});
+
+/**
+ * Admin endpoint to exclude an IMDB or TVDB ID, globally or from one list
+ */
+app.post('/admin/exclusions', (req: Request, res: Response) => {
+  const parsed = parseExclusion(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: 'Invalid exclusion', message: parsed.error });
+  }
+
+  addExclusion(parsed.exclusion);
+  clearTvOutputs();
+  res.status(201).json(parsed.exclusion);
+});
+
+/**
+ * Admin endpoint to remove an exclusion by ID
+ */
+app.delete('/admin/exclusions/:id', (req: Request, res: Response) => {
+  if (!deleteExclusion(req.params.id)) {
+    return res.status(404).json({
+      error: 'Exclusion not found',
+      message: `No exclusion with ID ${req.params.id}`,
+    });
+  }
+
+  clearTvOutputs();
+  res.json({ message: `Exclusion ${req.params.id} removed` });
+});
+
+/**
+ * Admin endpoint to list notifications that could not be delivered
+ */
+app.get('/admin/notifications/failures', (_req: Request, res: Response) => {
+  const failures = getNotificationFailures();
+  res.json({ totalFailures: failures.length, failures });
+});
+
 /**
  * Error handler
  */
 app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('[Error]', err);
+  apiLog.error('Unhandled error:', err);
   res.status(500).json({
     error: 'Internal server error',
     message: err.message,
@@ -276,6 +1284,16 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 
 // Start server
 app.listen(PORT, () => {
+  // Profiles may have changed, so their stored output no longer matches them
+  watchConfig(() => clearProfileOutputs());
+  startPrewarm((listId, query) => buildTvOutput(listId, query as Request['query']));
+  if (getAuthStatus().adminKeys === 0) {
+    authLog.warn('No admin API key configured: /admin endpoints and POST /sync are disabled');
+  }
+  for (const problem of validateNotificationTargets()) {
+    configLog.warn(`${problem}; notifications to it will fail`);
+  }
+
   const tmdbStatus = isTMDBConfigured() ? '✓ Configured' : '✗ Not configured (set TMDB_API_KEY)';
   const tmdbStatusPadded = tmdbStatus.padEnd(36);
   console.log(`
@@ -288,8 +1306,12 @@ app.listen(PORT, () => {
 ║    GET /                         - API documentation           ║
 ║    GET /watchlist/:userId        - Metadata                    ║
 ║    GET /watchlist/:userId/tv     - TV shows (Sonarr format)    ║
+║    GET /watchlist/:userId/movies - Movies (Radarr format)      ║
 ║    GET /list/:listId             - Metadata                    ║
 ║    GET /list/:listId/tv          - TV shows (Sonarr format)    ║
+║    GET /list/:listId/movies      - Movies (Radarr format)      ║
+║    GET /combined/tv?lists=...    - Combined lists (Sonarr)     ║
+║    GET /profiles/:name/tv        - Named profile (Sonarr)      ║
 ║                                                                ║
 ║  TMDB API: ${tmdbStatusPadded}                ║
 ╚════════════════════════════════════════════════════════════════╝
@@ -0,0 +1,103 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Leveled logging with request correlation
+ *
+ * Every module logs through a logger named after its area ([IMDB], [TMDB], ...).
+ * Messages below LOG_LEVEL are dropped; LOG_FORMAT=json writes one JSON object per
+ * line for log aggregators instead of the plain text prefixes of time and area.
+ * The request ID of the API request being served is kept in async context, so
+ * everything logged while handling it - list fetches, TMDB lookups - carries the
+ * same ID.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Logger for one area of the code
+ */
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Get the log settings from environment
+ */
+export function getLogSettings(): { level: LogLevel; format: 'text' | 'json' } {
+  const level = (process.env.LOG_LEVEL || '').toLowerCase();
+  return {
+    level: level in LEVELS ? (level as LogLevel) : 'info',
+    format: (process.env.LOG_FORMAT || '').toLowerCase() === 'json' ? 'json' : 'text',
+  };
+}
+
+/**
+ * Run a function with a request ID that everything it logs will carry
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/**
+ * Get the ID of the request being served, if any
+ */
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Turn a detail into something JSON.stringify keeps, errors included
+ */
+function serializeDetail(detail: unknown): unknown {
+  if (detail instanceof Error) {
+    return { name: detail.name, message: detail.message, stack: detail.stack };
+  }
+  return detail;
+}
+
+/**
+ * Write a log line to the console method of its level
+ */
+function write(scope: string, level: LogLevel, message: string, details: unknown[]): void {
+  const settings = getLogSettings();
+  if (LEVELS[level] < LEVELS[settings.level]) return;
+
+  const time = new Date().toISOString();
+  const requestId = getRequestId();
+  const consoleMethod = level === 'warn' || level === 'error' ? level : 'log';
+
+  if (settings.format === 'json') {
+    const entry: Record<string, unknown> = {
+      time,
+      level,
+      scope,
+      message,
+      ...(requestId ? { requestId } : {}),
+      ...(details.length > 0 ? { details: details.map(serializeDetail) } : {}),
+    };
+    console[consoleMethod](JSON.stringify(entry));
+    return;
+  }
+
+  const prefix = requestId ? `${time} [${scope}] [${requestId}]` : `${time} [${scope}]`;
+  console[consoleMethod](`${prefix} ${message}`, ...details);
+}
+
+/**
+ * Create a logger whose messages are prefixed with a scope such as IMDB or TMDB
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, ...details) => write(scope, 'debug', message, details),
+    info: (message, ...details) => write(scope, 'info', message, details),
+    warn: (message, ...details) => write(scope, 'warn', message, details),
+    error: (message, ...details) => write(scope, 'error', message, details),
+  };
+}
@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createLogger } from './logger.js';
+import type { ResolverResult, SeriesHint, SeriesResolver } from './types.js';
+
+/**
+ * Static IMDB to TVDB mappings
+ *
+ * MAPPING_FILE points at a JSON object keyed by IMDB ID. Each value is either a
+ * TVDB ID or an object with the TVDB ID and an optional title:
+ *
+ *   {
+ *     "tt0386676": 73244,
+ *     "tt0903747": { "tvdbId": 81189, "title": "Breaking Bad" }
+ *   }
+ *
+ * The file is re-read whenever it changes. A change that fails validation is
+ * logged and ignored, so the last good mappings stay active.
+ */
+
+const log = createLogger('Mapping');
+
+interface MappingEntry {
+  tvdbId: number;
+  title?: string;
+}
+
+let mappings = new Map<string, MappingEntry>();
+let loadedFile: string | null = null;
+let loadedMtimeMs = 0;
+
+/**
+ * Get the path of the mapping file, if one is configured
+ */
+export function getMappingPath(): string | undefined {
+  return process.env.MAPPING_FILE ? path.resolve(process.env.MAPPING_FILE) : undefined;
+}
+
+/**
+ * Check if a mapping file is configured
+ */
+export function isMappingConfigured(): boolean {
+  return !!getMappingPath();
+}
+
+/**
+ * Validate the parsed contents of a mapping file
+ * Returns the mappings, or every problem found
+ */
+export function validateMappingFile(
+  raw: unknown
+): { mappings: Map<string, MappingEntry> } | { errors: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: ['mapping file must be a JSON object keyed by IMDB ID'] };
+  }
+
+  const errors: string[] = [];
+  const result = new Map<string, MappingEntry>();
+  for (const [imdbId, value] of Object.entries(raw)) {
+    if (!/^tt\d+$/.test(imdbId)) {
+      errors.push(`${imdbId}: not an IMDB ID (tt1234567)`);
+      continue;
+    }
+
+    const raw: unknown = typeof value === 'number' ? { tvdbId: value } : value;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push(`${imdbId}: must be a TVDB ID or an object with a positive whole number tvdbId`);
+      continue;
+    }
+    const { tvdbId, title } = raw as { tvdbId?: unknown; title?: unknown };
+    if (typeof tvdbId !== 'number' || !Number.isInteger(tvdbId) || tvdbId <= 0) {
+      errors.push(`${imdbId}: must be a TVDB ID or an object with a positive whole number tvdbId`);
+      continue;
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      errors.push(`${imdbId}.title: must be a string`);
+      continue;
+    }
+    result.set(imdbId, { tvdbId, title });
+  }
+
+  return errors.length > 0 ? { errors } : { mappings: result };
+}
+
+/**
+ * Get the current mappings, re-reading the file when it has changed
+ */
+function getMappings(): Map<string, MappingEntry> {
+  const file = getMappingPath();
+  if (!file) return new Map();
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch (error) {
+    if (loadedFile !== file || loadedMtimeMs !== -1) {
+      log.error(`Cannot read ${file}:`, error instanceof Error ? error.message : error);
+      loadedFile = file;
+      loadedMtimeMs = -1;
+      mappings = new Map();
+    }
+    return mappings;
+  }
+  if (loadedFile === file && loadedMtimeMs === mtimeMs) {
+    return mappings;
+  }
+
+  loadedFile = file;
+  loadedMtimeMs = mtimeMs;
+  try {
+    const result = validateMappingFile(JSON.parse(fs.readFileSync(file, 'utf8')));
+    if ('errors' in result) {
+      throw new Error(`\n  - ${result.errors.join('\n  - ')}`);
+    }
+    mappings = result.mappings;
+    log.info(`Loaded ${mappings.size} mappings from ${file}`);
+  } catch (error) {
+    log.error(
+      `Keeping previous mappings, ${file} is invalid:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+  return mappings;
+}
+
+/**
+ * Look up an IMDB ID in the mapping file
+ */
+export function findMapping(imdbId: string, hint?: SeriesHint): ResolverResult {
+  const entry = getMappings().get(imdbId);
+  if (!entry) {
+    return { outcome: 'not-found' };
+  }
+  return { outcome: 'resolved', tvdbId: entry.tvdbId, title: entry.title ?? hint?.title ?? '' };
+}
+
+/**
+ * Resolver that reads the mapping file
+ */
+export const mappingResolver: SeriesResolver = {
+  name: 'mapping',
+  isConfigured: isMappingConfigured,
+  resolve: async (imdbId, hint) => findMapping(imdbId, hint),
+};
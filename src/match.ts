@@ -0,0 +1,120 @@
+/**
+ * Title and year matching for the TMDB search fallback
+ *
+ * When TMDB can't find a show by IMDB ID, candidates from a title search are scored
+ * by how close their name is to the IMDB title (70%) and how close their first-air
+ * year is to the IMDB year (30%). Only the best candidate at or above the confidence
+ * threshold is accepted.
+ */
+
+const NAME_WEIGHT = 0.7;
+const YEAR_WEIGHT = 0.3;
+
+/**
+ * A TMDB search result to score
+ */
+export interface MatchCandidate {
+  id: number;
+  name: string;
+  original_name?: string;
+  first_air_date?: string;
+}
+
+/**
+ * Get the minimum confidence for a fuzzy match to be accepted (default: 0.85)
+ */
+export function getFuzzyMatchThreshold(): number {
+  const threshold = parseFloat(process.env.FUZZY_MATCH_THRESHOLD || '');
+  return Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : 0.85;
+}
+
+/**
+ * Normalize a title for comparison: lowercase, no accents or punctuation, no leading article
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+/**
+ * Compute the Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how similar two titles are, from 0 (nothing alike) to 1 (same after normalizing)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Score how well a first-air year fits the IMDB year
+ * An unknown year on either side scores low, so a name alone is rarely enough
+ */
+function yearScore(year: number | undefined, firstAirDate: string | undefined): number {
+  const candidateYear =
+    firstAirDate && /^\d{4}/.test(firstAirDate)
+      ? parseInt(firstAirDate.substring(0, 4), 10)
+      : undefined;
+  if (year === undefined || candidateYear === undefined) return 0.3;
+
+  const difference = Math.abs(year - candidateYear);
+  if (difference === 0) return 1;
+  if (difference === 1) return 0.7;
+  return 0;
+}
+
+/**
+ * Score a candidate against an IMDB title and year, from 0 to 1
+ * The better of the candidate's localized and original name is used
+ */
+export function scoreCandidate(candidate: MatchCandidate, title: string, year?: number): number {
+  const name = Math.max(
+    titleSimilarity(title, candidate.name),
+    candidate.original_name ? titleSimilarity(title, candidate.original_name) : 0
+  );
+  return NAME_WEIGHT * name + YEAR_WEIGHT * yearScore(year, candidate.first_air_date);
+}
+
+/**
+ * Pick the best scoring candidate, if it reaches the threshold
+ */
+export function pickBestMatch(
+  candidates: MatchCandidate[],
+  title: string,
+  year: number | undefined,
+  threshold = getFuzzyMatchThreshold()
+): { candidate: MatchCandidate; confidence: number } | null {
+  let best: { candidate: MatchCandidate; confidence: number } | null = null;
+  for (const candidate of candidates) {
+    const confidence = scoreCandidate(candidate, title, year);
+    if (!best || confidence > best.confidence) {
+      best = { candidate, confidence };
+    }
+  }
+
+  if (!best || best.confidence < threshold) return null;
+  return { ...best, confidence: Math.round(best.confidence * 1000) / 1000 };
+}
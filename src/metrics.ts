@@ -0,0 +1,245 @@
+import { createLogger } from './logger.js';
+
+/**
+ * Prometheus metrics
+ *
+ * A small registry of counters, gauges and histograms rendered in the Prometheus
+ * text exposition format at /metrics. Modules create their metrics at load time
+ * and update them as they work; values that already live elsewhere, such as
+ * cache statistics, are read by collectors when the metrics are scraped.
+ */
+
+const log = createLogger('Metrics');
+
+type Labels = Record<string, string | number>;
+
+/**
+ * Content type of the text exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * A metric family as it appears in the exposition format
+ */
+interface MetricFamily {
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(name: string): string[];
+  reset(): void;
+}
+
+/**
+ * A value that only goes up, such as a number of requests
+ */
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+/**
+ * A value that can go up and down, such as the size of a list
+ */
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+}
+
+/**
+ * A distribution of observed values, such as request latencies
+ */
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+// Latency buckets in seconds, from a cache hit to a large list resolved from scratch
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const registry = new Map<string, MetricFamily>();
+
+/**
+ * Escape a label value as the exposition format requires
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Format a set of labels as {a="1",b="2"}, or nothing when there are none
+ */
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(String(value))}"`
+  );
+  return parts.length > 0 ? `{${parts.join(',')}}` : '';
+}
+
+/**
+ * Format a sample value, including the special values Prometheus understands
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Keep only the declared labels, in declaration order, so equal label sets share a series
+ */
+function pickLabels(labelNames: string[], labels: Labels = {}): Labels {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+/**
+ * Add a metric family to the registry
+ */
+function register(name: string, family: MetricFamily): void {
+  if (registry.has(name)) {
+    throw new Error(`Metric ${name} is already registered`);
+  }
+  registry.set(name, family);
+}
+
+/**
+ * Create a counter or gauge that keeps one value per label set
+ */
+function createSeries(
+  name: string,
+  help: string,
+  type: 'counter' | 'gauge'
+): Map<string, { labels: Labels; value: number }> {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register(name, {
+    help,
+    type,
+    render: (metric) =>
+      [...series.values()].map(
+        ({ labels, value }) => `${metric}${formatLabels(labels)} ${formatValue(value)}`
+      ),
+    reset: () => series.clear(),
+  });
+  return series;
+}
+
+/**
+ * Create a counter
+ */
+export function createCounter(name: string, help: string, labelNames: string[] = []): Counter {
+  const series = createSeries(name, help, 'counter');
+  return {
+    inc(labels, value = 1) {
+      const picked = pickLabels(labelNames, labels);
+      const key = JSON.stringify(picked);
+      const entry = series.get(key) ?? { labels: picked, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Create a gauge
+ */
+export function createGauge(name: string, help: string, labelNames: string[] = []): Gauge {
+  const series = createSeries(name, help, 'gauge');
+  return {
+    set(labels, value) {
+      const picked = pickLabels(labelNames, labels);
+      series.set(JSON.stringify(picked), { labels: picked, value });
+    },
+  };
+}
+
+/**
+ * Create a histogram with cumulative buckets
+ */
+export function createHistogram(
+  name: string,
+  help: string,
+  labelNames: string[] = [],
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  register(name, {
+    help,
+    type: 'histogram',
+    render: (metric) =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (bound, i) => `${metric}_bucket${formatLabels({ ...labels, le: bound })} ${counts[i]}`
+        ),
+        `${metric}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${metric}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+        `${metric}_count${formatLabels(labels)} ${count}`,
+      ]),
+    reset: () => series.clear(),
+  });
+
+  return {
+    observe(labels, value) {
+      const picked = pickLabels(labelNames, labels);
+      const key = JSON.stringify(picked);
+      const entry = series.get(key) ?? {
+        labels: picked,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Register a metric whose samples are read from elsewhere each time metrics are scraped
+ */
+export function registerCollector(
+  name: string,
+  help: string,
+  type: 'counter' | 'gauge',
+  collect: () => Array<{ labels?: Labels; value: number }>
+): void {
+  register(name, {
+    help,
+    type,
+    render: (metric) =>
+      collect().map(
+        ({ labels = {}, value }) => `${metric}${formatLabels(labels)} ${formatValue(value)}`
+      ),
+    reset: () => {},
+  });
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format
+ * A collector that throws is skipped so one broken source doesn't hide the rest
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const [name, family] of registry) {
+    let samples: string[];
+    try {
+      samples = family.render(name);
+    } catch (error) {
+      log.error(`Failed to collect ${name}:`, error);
+      continue;
+    }
+    lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`, ...samples);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Forget every recorded value; collectors keep reading their sources
+ */
+export function resetMetrics(): void {
+  for (const family of registry.values()) {
+    family.reset();
+  }
+}
@@ -0,0 +1,340 @@
+import crypto from 'node:crypto';
+import { createLogger } from './logger.js';
+import { createFileStore } from './store.js';
+import { isResolverConfigured, resolveItems } from './tvdb.js';
+import type {
+  ListChangeNotification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationFailure,
+  NotificationItem,
+  SnapshotDiff,
+  SnapshotItem,
+} from './types.js';
+
+/**
+ * List change notifications
+ *
+ * When a snapshot shows TV shows added to or removed from a list, a message is
+ * posted to every configured target:
+ * - NOTIFY_DISCORD_WEBHOOK_URLS   Discord webhooks (embeds)
+ * - NOTIFY_SLACK_WEBHOOK_URLS     Slack incoming webhooks (mrkdwn text)
+ * - NOTIFY_WEBHOOK_URLS           generic JSON webhooks, signed with NOTIFY_WEBHOOK_SECRET
+ *
+ * Each variable takes a comma-separated list of URLs. NOTIFY_LISTS limits which
+ * lists are tracked. Failed deliveries are retried with exponential backoff and
+ * recorded once every attempt has failed.
+ */
+
+const log = createLogger('Notify');
+
+const SIGNATURE_HEADER = 'X-Imdbarr-Signature';
+
+// Discord accepts at most 10 embeds per message
+const DISCORD_MAX_EMBEDS = 10;
+
+const failureStore = createFileStore<NotificationFailure>('notification-failures');
+let failureSequence = 0;
+
+/**
+ * Read a comma-separated environment variable
+ */
+function readList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+// Environment variables holding the URLs of each channel
+const TARGET_VARIABLES: Array<[string, NotificationChannel]> = [
+  ['NOTIFY_DISCORD_WEBHOOK_URLS', 'discord'],
+  ['NOTIFY_SLACK_WEBHOOK_URLS', 'slack'],
+  ['NOTIFY_WEBHOOK_URLS', 'webhook'],
+];
+
+/**
+ * Get every configured notification target
+ */
+export function getNotificationTargets(): Array<{ channel: NotificationChannel; url: string }> {
+  return TARGET_VARIABLES.flatMap(([name, channel]) =>
+    readList(name).map((url) => ({ channel, url }))
+  );
+}
+
+/**
+ * Describe every configured notification URL that is not a valid http(s) URL
+ * Such targets are skipped and recorded as failed deliveries, so they never block the others
+ */
+export function validateNotificationTargets(): string[] {
+  return TARGET_VARIABLES.flatMap(([name]) =>
+    readList(name).flatMap((url, index) =>
+      getWebhookHost(url) ? [] : [`${name}[${index}] is not a valid http(s) URL`]
+    )
+  );
+}
+
+/**
+ * Check if any notification target is configured
+ */
+export function isNotificationConfigured(): boolean {
+  return getNotificationTargets().length > 0;
+}
+
+/**
+ * Check whether changes to a list should be notified
+ */
+function isTrackedList(listId: string): boolean {
+  const lists = readList('NOTIFY_LISTS');
+  return lists.length === 0 || lists.includes(listId);
+}
+
+/**
+ * Get the delivery settings from environment
+ */
+function getDeliverySettings(): { maxAttempts: number; baseDelayMs: number; timeoutMs: number } {
+  const maxAttempts = parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '', 10);
+  const baseDelayMs = parseInt(process.env.NOTIFY_RETRY_DELAY_MS || '', 10);
+  const timeoutMs = parseInt(process.env.NOTIFY_TIMEOUT_MS || '', 10);
+  return {
+    maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : 4,
+    baseDelayMs: Number.isFinite(baseDelayMs) && baseDelayMs >= 0 ? baseDelayMs : 1000,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 10000,
+  };
+}
+
+/**
+ * Get the host of a webhook URL, or null when it is not a valid http(s) URL
+ * Only the host is ever logged or stored, since webhook paths often hold a token
+ */
+function getWebhookHost(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.host : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a webhook body with HMAC-SHA256, as sent in the X-Imdbarr-Signature header
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Describe a show as "Title (Year)"
+ */
+function describe(item: NotificationItem): string {
+  return item.year ? `${item.title} (${item.year})` : item.title;
+}
+
+/**
+ * Build the Discord messages for a change, one embed per show
+ */
+export function buildDiscordPayloads(notification: ListChangeNotification): unknown[] {
+  const embeds = [
+    ...notification.added.map((item) => ({ item, added: true })),
+    ...notification.removed.map((item) => ({ item, added: false })),
+  ].map(({ item, added }) => ({
+    title: `${added ? 'Added' : 'Removed'}: ${describe(item)}`,
+    url: item.imdbUrl,
+    color: added ? 0x2ecc71 : 0xe74c3c,
+    fields: item.tvdbId ? [{ name: 'TVDB ID', value: String(item.tvdbId), inline: true }] : [],
+  }));
+
+  const payloads: unknown[] = [];
+  for (let i = 0; i < embeds.length; i += DISCORD_MAX_EMBEDS) {
+    payloads.push({
+      content: i === 0 ? `**${notification.listId}** changed` : undefined,
+      embeds: embeds.slice(i, i + DISCORD_MAX_EMBEDS),
+    });
+  }
+  return payloads;
+}
+
+/**
+ * Build the Slack message for a change
+ */
+export function buildSlackPayload(notification: ListChangeNotification): unknown {
+  const line = (item: NotificationItem) =>
+    `• <${item.imdbUrl}|${describe(item)}>${item.tvdbId ? ` (TVDB ${item.tvdbId})` : ''}`;
+
+  const sections = [`*${notification.listId}* changed`];
+  if (notification.added.length > 0) {
+    sections.push(`*Added*\n${notification.added.map(line).join('\n')}`);
+  }
+  if (notification.removed.length > 0) {
+    sections.push(`*Removed*\n${notification.removed.map(line).join('\n')}`);
+  }
+  return { text: sections.join('\n\n') };
+}
+
+/**
+ * POST a JSON body, retrying network errors, timeouts, 429s and 5xx responses with
+ * exponential backoff. An invalid URL fails at once without a request.
+ */
+async function deliver(
+  channel: NotificationChannel,
+  url: string,
+  body: string,
+  headers: Record<string, string> = {}
+): Promise<NotificationDelivery> {
+  const { maxAttempts, baseDelayMs, timeoutMs } = getDeliverySettings();
+  const target = getWebhookHost(url);
+  if (!target) {
+    return {
+      channel,
+      target: 'invalid URL',
+      ok: false,
+      attempts: 0,
+      error: 'Not a valid http(s) URL',
+    };
+  }
+  let status: number | undefined;
+  let error = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal: controller.signal,
+      });
+      status = response.status;
+      if (response.ok) {
+        return { channel, target, ok: true, attempts: attempt, status };
+      }
+
+      error = `HTTP ${response.status} ${response.statusText}`.trim();
+      if (response.status !== 429 && response.status < 500) {
+        return { channel, target, ok: false, attempts: attempt, status, error };
+      }
+    } catch (err) {
+      status = undefined;
+      error = controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < maxAttempts) {
+      const delay = baseDelayMs * 2 ** (attempt - 1);
+      log.warn(`${channel} ${target} failed (${error}), retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  return { channel, target, ok: false, attempts: maxAttempts, status, error };
+}
+
+/**
+ * Send a notification to one target in the format its channel expects
+ * A Discord change with many shows is sent as several messages
+ */
+async function send(
+  channel: NotificationChannel,
+  url: string,
+  notification: ListChangeNotification
+): Promise<NotificationDelivery> {
+  if (channel === 'discord') {
+    let last: NotificationDelivery | undefined;
+    for (const payload of buildDiscordPayloads(notification)) {
+      last = await deliver(channel, url, JSON.stringify(payload));
+      if (!last.ok) break;
+    }
+    return last!;
+  }
+
+  if (channel === 'slack') {
+    return deliver(channel, url, JSON.stringify(buildSlackPayload(notification)));
+  }
+
+  const body = JSON.stringify(notification);
+  const secret = process.env.NOTIFY_WEBHOOK_SECRET;
+  return deliver(
+    channel,
+    url,
+    body,
+    secret ? { [SIGNATURE_HEADER]: signPayload(body, secret) } : {}
+  );
+}
+
+/**
+ * Turn snapshot items into notification items, with TVDB IDs for those that resolve
+ */
+async function toNotificationItems(items: SnapshotItem[]): Promise<NotificationItem[]> {
+  const tvdbIds = new Map<string, number>();
+  if (isResolverConfigured()) {
+    for (const { item, resolution } of await resolveItems(items)) {
+      if (resolution?.outcome === 'resolved') tvdbIds.set(item.imdbId, resolution.tvdbId);
+    }
+  }
+
+  return items.map((item) => ({
+    imdbId: item.imdbId,
+    title: item.title,
+    year: item.year,
+    type: item.type,
+    imdbUrl: `https://www.imdb.com/title/${item.imdbId}/`,
+    tvdbId: tvdbIds.get(item.imdbId),
+  }));
+}
+
+/**
+ * Get notifications that could not be delivered, newest first
+ */
+export function getNotificationFailures(): NotificationFailure[] {
+  return failureStore.values().reverse();
+}
+
+/**
+ * Notify every target about TV shows added to or removed from a list
+ * The caller passes only the TV shows of a diff; nothing is sent when it is empty
+ */
+export async function notifyListChanges(
+  listId: string,
+  diff: SnapshotDiff
+): Promise<NotificationDelivery[]> {
+  const targets = getNotificationTargets();
+  if (targets.length === 0 || !isTrackedList(listId)) return [];
+
+  const { added, removed } = diff;
+  if (added.length === 0 && removed.length === 0) return [];
+
+  const notification: ListChangeNotification = {
+    event: 'list.changed',
+    listId,
+    detectedAt: new Date().toISOString(),
+    added: await toNotificationItems(added),
+    removed: await toNotificationItems(removed),
+  };
+
+  const deliveries = await Promise.all(
+    targets.map(({ channel, url }) => send(channel, url, notification))
+  );
+
+  for (const delivery of deliveries) {
+    if (delivery.ok) continue;
+    log.error(
+      `Giving up on ${delivery.channel} ${delivery.target} after ${delivery.attempts} attempts: ${delivery.error}`
+    );
+    failureStore.set(`${Date.now()}-${failureSequence++}`, {
+      ...delivery,
+      at: new Date().toISOString(),
+      listId,
+    });
+  }
+
+  log.info(
+    `${listId}: ${added.length} added, ${removed.length} removed, sent to ${deliveries.filter((d) => d.ok).length}/${deliveries.length} targets`
+  );
+  return deliveries;
+}
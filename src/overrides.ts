@@ -0,0 +1,210 @@
+import { parseListId } from './imdb.js';
+import { createLogger } from './logger.js';
+import { createFileStore } from './store.js';
+import type { Exclusion, MappingOverride } from './types.js';
+
+/**
+ * Admin overrides and exclusions
+ *
+ * Mapping overrides pin an IMDB ID to a TVDB series when the resolvers get it
+ * wrong; they are consulted before the cache and the resolver chain. Exclusions
+ * keep a show out of the Sonarr output, matched by IMDB ID or TVDB ID, in every
+ * list or only in one. Both are managed through the /admin endpoints and
+ * persisted to the data directory.
+ */
+
+const log = createLogger('Overrides');
+
+const overrideStore = createFileStore<MappingOverride>('overrides');
+const exclusionStore = createFileStore<Exclusion>('exclusions');
+
+/**
+ * Check that an optional note is a string
+ */
+function parseNote(note: unknown): { note?: string } | { error: string } {
+  if (note === undefined || note === null || note === '') return {};
+  if (typeof note !== 'string') {
+    return { error: 'note must be a string' };
+  }
+  return { note };
+}
+
+/**
+ * Validate a mapping override for an IMDB ID from a request body
+ */
+export function parseMappingOverride(
+  imdbId: string,
+  body: unknown
+): { override: MappingOverride } | { error: string } {
+  if (!/^tt\d+$/.test(imdbId)) {
+    return { error: `"${imdbId}" is not an IMDB ID. Expected format: tt1234567` };
+  }
+
+  const { tvdbId, title, note } = (body && typeof body === 'object' ? body : {}) as Record<
+    string,
+    unknown
+  >;
+  if (!(Number.isInteger(tvdbId) && (tvdbId as number) > 0)) {
+    return { error: 'tvdbId must be a positive whole number' };
+  }
+  if (title !== undefined && typeof title !== 'string') {
+    return { error: 'title must be a string' };
+  }
+  const parsedNote = parseNote(note);
+  if ('error' in parsedNote) return parsedNote;
+
+  return {
+    override: {
+      imdbId,
+      tvdbId: tvdbId as number,
+      ...(title ? { title } : {}),
+      ...parsedNote,
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Build the ID of an exclusion from what it matches, so adding the same one twice replaces it
+ */
+export function exclusionId(match: Pick<Exclusion, 'imdbId' | 'tvdbId' | 'listId'>): string {
+  const target = match.imdbId ?? `tvdb-${match.tvdbId}`;
+  return `${match.listId ?? 'global'}:${target}`;
+}
+
+/**
+ * Validate an exclusion from a request body
+ * Exactly one of imdbId or tvdbId is required; listId limits it to one list
+ */
+export function parseExclusion(body: unknown): { exclusion: Exclusion } | { error: string } {
+  const { imdbId, tvdbId, listId, note } = (body && typeof body === 'object' ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if ((imdbId === undefined) === (tvdbId === undefined)) {
+    return { error: 'Exactly one of imdbId or tvdbId is required' };
+  }
+  if (imdbId !== undefined && !(typeof imdbId === 'string' && /^tt\d+$/.test(imdbId))) {
+    return { error: `"${imdbId}" is not an IMDB ID. Expected format: tt1234567` };
+  }
+  if (tvdbId !== undefined && !(Number.isInteger(tvdbId) && (tvdbId as number) > 0)) {
+    return { error: 'tvdbId must be a positive whole number' };
+  }
+  if (listId !== undefined) {
+    const parsed = typeof listId === 'string' ? parseListId(listId) : null;
+    if (!parsed || parsed.type === 'url') {
+      return {
+        error: `"${listId}" is not an IMDB list ID. Expected format: ur12345678 or ls12345678`,
+      };
+    }
+  }
+  const parsedNote = parseNote(note);
+  if ('error' in parsedNote) return parsedNote;
+
+  const match = {
+    ...(imdbId !== undefined ? { imdbId: imdbId as string } : { tvdbId: tvdbId as number }),
+    ...(listId !== undefined ? { listId: listId as string } : {}),
+  };
+  return {
+    exclusion: {
+      id: exclusionId(match),
+      ...match,
+      ...parsedNote,
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Pin an IMDB ID to a TVDB series, replacing any earlier override
+ */
+export function setMappingOverride(override: MappingOverride): void {
+  overrideStore.set(override.imdbId, override);
+  log.info(`Pinned ${override.imdbId} -> TVDB ${override.tvdbId}`);
+}
+
+/**
+ * Get the mapping override of an IMDB ID
+ */
+export function getMappingOverride(imdbId: string): MappingOverride | undefined {
+  return overrideStore.get(imdbId);
+}
+
+/**
+ * Get every mapping override, sorted by IMDB ID
+ */
+export function listMappingOverrides(): MappingOverride[] {
+  return overrideStore.values().sort((a, b) => a.imdbId.localeCompare(b.imdbId));
+}
+
+/**
+ * Remove the mapping override of an IMDB ID
+ * Returns false when there was none
+ */
+export function deleteMappingOverride(imdbId: string): boolean {
+  return overrideStore.delete(imdbId);
+}
+
+/**
+ * Add an exclusion, replacing an earlier one with the same ID
+ */
+export function addExclusion(exclusion: Exclusion): void {
+  exclusionStore.set(exclusion.id, exclusion);
+  log.info(`Excluded ${exclusion.id}`);
+}
+
+/**
+ * Get the exclusions, sorted by ID
+ * With a list ID, only the exclusions that apply to that list: its own and the global ones
+ */
+export function listExclusions(listId?: string): Exclusion[] {
+  return exclusionStore
+    .values()
+    .filter((exclusion) => !listId || !exclusion.listId || exclusion.listId === listId)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Remove an exclusion by ID
+ * Returns false when there was none
+ */
+export function deleteExclusion(id: string): boolean {
+  return exclusionStore.delete(id);
+}
+
+/**
+ * Find the exclusion matching a show, preferring one for its lists over a global one
+ */
+export function findExclusion(
+  show: { imdbId?: string; tvdbId?: number },
+  listIds?: string | string[]
+): Exclusion | undefined {
+  const targets = [
+    ...(show.imdbId ? [{ imdbId: show.imdbId }] : []),
+    ...(show.tvdbId ? [{ tvdbId: show.tvdbId }] : []),
+  ];
+  const lists = typeof listIds === 'string' ? [listIds] : (listIds ?? []);
+  for (const scope of [...lists, undefined]) {
+    for (const target of targets) {
+      const exclusion = exclusionStore.get(exclusionId({ ...target, listId: scope }));
+      if (exclusion) return exclusion;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remove every override and exclusion
+ */
+export function clearOverrides(): void {
+  overrideStore.clear();
+  exclusionStore.clear();
+}
+
+/**
+ * Get override counts for /health
+ */
+export function getOverrideStats(): { mappings: number; exclusions: number } {
+  return { mappings: overrideStore.size(), exclusions: exclusionStore.size() };
+}
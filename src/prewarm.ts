@@ -0,0 +1,247 @@
+import { parseListId } from './imdb.js';
+import { createLogger } from './logger.js';
+import { createSingleFlight } from './singleflight.js';
+import { createFileStore } from './store.js';
+import type { SonarrSeries, TvOutput, TvOutputResult } from './types.js';
+
+/**
+ * Pre-warmed Sonarr output with stale-while-revalidate
+ *
+ * Large lists take minutes to page through and resolve, longer than Sonarr waits
+ * for an import list. The finished output of every /tv request is stored per list
+ * and query, so the next request is answered at once. Output older than
+ * TV_MAX_AGE_SECONDS is still returned, and a refresh is started in the background.
+ * Profiles are stored under `profile:<name>` and combined lists under `combined`,
+ * with the lists and operation in the query.
+ *
+ * Lists and profiles in PREWARM_LISTS are also refreshed every
+ * PREWARM_INTERVAL_MINUTES, so Sonarr never has to wait for them.
+ */
+
+const log = createLogger('Prewarm');
+
+/**
+ * Builds the Sonarr output of a list, profile or combined list for the query of a /tv request
+ */
+export type TvOutputBuilder = (
+  listId: string,
+  query: Record<string, unknown>
+) => Promise<SonarrSeries[]>;
+
+// Output that hasn't been rebuilt in this long is dropped; stale output is rebuilt when requested
+const OUTPUT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Query parameters that change the output; others, like a cache-busting timestamp, share a key
+const OUTPUT_QUERY_PARAMS = new Set([
+  'fetchAll',
+  'maxItems',
+  'page',
+  'limit',
+  'offset',
+  'includeUnknown',
+  'genres',
+  'minRating',
+  'maxRating',
+  'minVotes',
+  'yearFrom',
+  'yearTo',
+  'types',
+  'lists',
+  'op',
+]);
+
+const PROFILE_PREFIX = 'profile:';
+
+const outputStore = createFileStore<TvOutput>('tv-output');
+const refreshFlights = createSingleFlight<TvOutput>('tvOutput');
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let lastRunAt: string | null = null;
+
+/**
+ * Get the pre-warm settings from environment
+ */
+export function getPrewarmSettings(): {
+  lists: string[];
+  intervalMinutes: number;
+  maxAgeSeconds: number;
+} {
+  const interval = parseFloat(process.env.PREWARM_INTERVAL_MINUTES || '');
+  const maxAge = parseInt(process.env.TV_MAX_AGE_SECONDS || '', 10);
+  return {
+    lists: (process.env.PREWARM_LISTS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    intervalMinutes: Number.isFinite(interval) && interval > 0 ? interval : 60,
+    maxAgeSeconds: Number.isFinite(maxAge) && maxAge >= 0 ? maxAge : 3600,
+  };
+}
+
+/**
+ * Get the stored output ID of a profile
+ */
+export function profileOutputId(name: string): string {
+  return `${PROFILE_PREFIX}${name}`;
+}
+
+/**
+ * Get the profile name of a stored output ID, if it is a profile's
+ */
+export function parseProfileOutputId(listId: string): string | undefined {
+  return listId.startsWith(PROFILE_PREFIX) ? listId.slice(PROFILE_PREFIX.length) : undefined;
+}
+
+/**
+ * Build the store key of a list and query, independent of parameter order
+ * Only parameters that change the output are part of the key
+ */
+export function tvOutputKey(listId: string, query: Record<string, unknown>): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(query)
+    .filter((k) => OUTPUT_QUERY_PARAMS.has(k))
+    .sort()) {
+    const value = query[key];
+    for (const part of Array.isArray(value) ? value : [value]) {
+      if (part !== undefined) params.append(key, String(part));
+    }
+  }
+  const search = params.toString();
+  return search ? `${listId}?${search}` : listId;
+}
+
+/**
+ * Drop output that hasn't been refreshed for a week
+ */
+function pruneOutputs(): void {
+  const cutoff = Date.now() - OUTPUT_RETENTION_MS;
+  for (const [key, output] of outputStore.entries()) {
+    if (output.generatedAt < cutoff) outputStore.delete(key);
+  }
+}
+
+/**
+ * Build and store the output of a list and query
+ * Concurrent refreshes of the same key share one build
+ */
+function refresh(
+  listId: string,
+  query: Record<string, unknown>,
+  build: TvOutputBuilder
+): Promise<TvOutput> {
+  const key = tvOutputKey(listId, query);
+  return refreshFlights.run(key, async () => {
+    const output: TvOutput = {
+      listId,
+      series: await build(listId, query),
+      generatedAt: Date.now(),
+    };
+    outputStore.set(key, output);
+    pruneOutputs();
+    log.info(`Refreshed ${key}: ${output.series.length} series`);
+    return output;
+  });
+}
+
+/**
+ * Get the Sonarr output of a list, from the store when possible
+ * Stale output is returned as it is while a background refresh replaces it
+ */
+export async function getTvOutput(
+  listId: string,
+  query: Record<string, unknown>,
+  build: TvOutputBuilder
+): Promise<TvOutputResult> {
+  const stored = outputStore.get(tvOutputKey(listId, query));
+  if (!stored) {
+    return { ...(await refresh(listId, query, build)), status: 'miss' };
+  }
+
+  const ageSeconds = (Date.now() - stored.generatedAt) / 1000;
+  if (ageSeconds <= getPrewarmSettings().maxAgeSeconds) {
+    return { ...stored, status: 'fresh' };
+  }
+
+  refresh(listId, query, build).catch((error) =>
+    log.error(`Background refresh of ${listId} failed:`, error)
+  );
+  return { ...stored, status: 'stale' };
+}
+
+/**
+ * Refresh every list and profile in PREWARM_LISTS, one at a time
+ * Entries that aren't IMDB list IDs or URLs are taken as profile names.
+ * A list that fails keeps its previous output
+ */
+export async function prewarmLists(build: TvOutputBuilder): Promise<void> {
+  lastRunAt = new Date().toISOString();
+  for (const entry of getPrewarmSettings().lists) {
+    const listId = parseListId(entry) ? entry : profileOutputId(entry);
+    try {
+      await refresh(listId, {}, build);
+    } catch (error) {
+      log.error(`Failed to refresh ${listId}:`, error);
+    }
+  }
+}
+
+/**
+ * Start refreshing PREWARM_LISTS now and on every interval
+ */
+export function startPrewarm(build: TvOutputBuilder): void {
+  const { lists, intervalMinutes } = getPrewarmSettings();
+  if (timer || lists.length === 0) return;
+
+  log.info(`Refreshing ${lists.length} lists every ${intervalMinutes} minutes`);
+  const run = () => {
+    prewarmLists(build).catch((error) => log.error('Run failed:', error));
+  };
+  timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  run();
+}
+
+/**
+ * Stop the pre-warm schedule
+ */
+export function stopPrewarm(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Forget all stored output
+ */
+export function clearTvOutputs(): void {
+  outputStore.clear();
+}
+
+/**
+ * Forget the stored output of every profile, after the profiles have changed
+ */
+export function clearProfileOutputs(): void {
+  for (const key of outputStore.keys()) {
+    if (key.startsWith(PROFILE_PREFIX)) outputStore.delete(key);
+  }
+}
+
+/**
+ * Get pre-warm status for /health
+ */
+export function getPrewarmStatus(): {
+  lists: string[];
+  intervalMinutes: number;
+  maxAgeSeconds: number;
+  running: boolean;
+  lastRunAt: string | null;
+  entries: number;
+} {
+  return {
+    ...getPrewarmSettings(),
+    running: timer !== null,
+    lastRunAt,
+    entries: outputStore.size(),
+  };
+}
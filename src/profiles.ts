@@ -0,0 +1,65 @@
+import { filterTVShows } from './imdb.js';
+import { fetchCombinedItems } from './combine.js';
+import { applyItemFilters } from './filters.js';
+import { convertToSonarrFormat } from './tvdb.js';
+import type { CombinedItems, IMDBItem, ListProfile, SonarrSeries } from './types.js';
+
+/**
+ * List profiles
+ * Fetch and convert the items of a named profile from the config file
+ */
+
+/**
+ * Build an unfiltered single-source profile for a bare IMDB list ID
+ * Lets sync endpoints accept a list directly as well as a named profile
+ */
+export function profileForList(listId: string): ListProfile {
+  return {
+    name: listId,
+    sources: [listId],
+    operation: 'union',
+    exclude: [],
+    filters: { includeGenres: [], excludeGenres: [] },
+    format: 'full',
+  };
+}
+
+/**
+ * Fetch a profile's sources, combine them, then apply its filters, exclusions and maxItems
+ * Sources are always fetched in full: cutting them short before a difference or
+ * intersection would miss shows further down the other lists
+ * The source lists of each item are returned too, so their exclusions can be applied.
+ */
+export async function fetchProfile(profile: ListProfile): Promise<CombinedItems> {
+  const { items: fetched, sources } = await fetchCombinedItems(profile.sources, profile.operation, {
+    fetchAll: true,
+  });
+
+  const excluded = new Set(profile.exclude);
+  const items = applyItemFilters(fetched, profile.filters).filter(
+    (item) => !excluded.has(item.imdbId)
+  );
+
+  return { items: profile.maxItems ? items.slice(0, profile.maxItems) : items, sources };
+}
+
+/**
+ * Fetch a profile's items, without their source lists
+ */
+export async function fetchProfileItems(profile: ListProfile): Promise<IMDBItem[]> {
+  return (await fetchProfile(profile)).items;
+}
+
+/**
+ * Fetch a profile's TV shows in Sonarr format, honoring its output format
+ * Each show is checked against the exclusions of the source lists it is on
+ */
+export async function fetchProfileSeries(profile: ListProfile): Promise<SonarrSeries[]> {
+  const { items, sources } = await fetchProfile(profile);
+  const series = await convertToSonarrFormat(filterTVShows(items), sources);
+
+  if (profile.format === 'minimal') {
+    return series.map(({ TvdbId }) => ({ TvdbId }));
+  }
+  return series;
+}
@@ -0,0 +1,68 @@
+import { filterTVShows } from './imdb.js';
+import { resolveItems } from './tvdb.js';
+import type { IMDBItem, ReportEntry, ReportOutcome, ResolutionReport } from './types.js';
+
+/**
+ * Resolution reports
+ * Explain why items from an IMDB list did or didn't make it into the Sonarr output
+ */
+
+/**
+ * Build a resolution report for every item of a list
+ * Non-TV items are reported as filtered; TV items are resolved exactly like the /tv endpoints,
+ * including the exclusions of `listId`. Items should already be classified the way the
+ * /tv request would classify them.
+ */
+export async function buildResolutionReport(
+  items: IMDBItem[],
+  listId?: string
+): Promise<ResolutionReport> {
+  const tvShows = filterTVShows(items);
+  const resolved = await resolveItems(tvShows, listId);
+  const byImdbId = new Map(resolved.map((r) => [r.item.imdbId, r]));
+
+  const entries: ReportEntry[] = items.map((item) => {
+    const entry: ReportEntry = {
+      imdbId: item.imdbId,
+      title: item.title,
+      type: item.type,
+      typeSource: item.typeSource,
+      year: item.year,
+      outcome: 'filtered',
+    };
+
+    const result = byImdbId.get(item.imdbId);
+    if (!result) {
+      return entry;
+    }
+    if (result.excluded && !result.resolution) {
+      return { ...entry, outcome: 'excluded', exclusionId: result.excluded.id };
+    }
+    if (result.error !== undefined || !result.resolution) {
+      return { ...entry, outcome: 'error', error: result.error };
+    }
+
+    const { resolution } = result;
+    entry.outcome = result.excluded ? 'excluded' : resolution.outcome;
+    if (result.excluded) entry.exclusionId = result.excluded.id;
+    if (resolution.tmdbId) entry.tmdbId = resolution.tmdbId;
+    if (resolution.outcome === 'resolved') {
+      entry.tvdbId = resolution.tvdbId;
+      entry.provider = resolution.provider;
+      if (resolution.match === 'fuzzy') {
+        entry.match = resolution.match;
+        entry.confidence = resolution.confidence;
+      }
+    } else if (resolution.httpStatus) {
+      entry.httpStatus = resolution.httpStatus;
+    }
+    return entry;
+  });
+
+  const summary: Partial<Record<ReportOutcome, number>> = {};
+  for (const entry of entries) {
+    summary[entry.outcome] = (summary[entry.outcome] || 0) + 1;
+  }
+
+  return { totalItems: items.length, summary, items: entries };
+}
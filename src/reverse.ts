@@ -0,0 +1,100 @@
+import { fetchIMDBList } from './imdb.js';
+import { createLogger } from './logger.js';
+import { getSeries } from './sonarr.js';
+import { getTMDBClientSettings, mapWithConcurrency } from './tmdb.js';
+import { resolveTVDBToIMDB } from './tvdb.js';
+import type { MissingFromListReport, MissingSeries, SonarrLibrarySeries } from './types.js';
+
+/**
+ * Reverse sync: Sonarr -> IMDB
+ *
+ * imdbarr can't log in to IMDB, so instead of adding to a list directly it reports
+ * which Sonarr series are missing from a list and exports them as a CSV that IMDB's
+ * list import accepts.
+ */
+
+const log = createLogger('Reverse');
+
+/**
+ * Find the Sonarr series that are not on an IMDB list
+ * Series whose Sonarr IMDB ID is already on the list are skipped without a TMDB lookup
+ */
+export async function findMissingFromList(listId: string): Promise<MissingFromListReport> {
+  const items = await fetchIMDBList(listId, { fetchAll: true });
+  const onList = new Set(items.map((item) => item.imdbId));
+  const library = await getSeries();
+
+  const candidates = library.filter((series) => !series.imdbId || !onList.has(series.imdbId));
+  const missing: MissingSeries[] = [];
+  const unresolved: MissingFromListReport['unresolved'] = [];
+
+  // Resolve with the same concurrency as the forward direction
+  const resolved = await mapWithConcurrency(
+    candidates,
+    getTMDBClientSettings().concurrency,
+    async (series) => ({ series, imdbId: await resolveTVDBToIMDB(series.tvdbId, series.tmdbId) })
+  );
+
+  for (const { series, imdbId } of resolved) {
+    const entry = toMissingSeries(series, imdbId);
+    if (!entry) {
+      unresolved.push({ tvdbId: series.tvdbId, title: series.title });
+    } else if (!onList.has(entry.imdbId)) {
+      missing.push(entry);
+    }
+  }
+
+  log.info(
+    `${listId}: ${missing.length} of ${library.length} Sonarr series missing, ${unresolved.length} unresolved`
+  );
+
+  return {
+    listId,
+    generatedAt: new Date().toISOString(),
+    librarySize: library.length,
+    onList: library.length - missing.length - unresolved.length,
+    missing,
+    unresolved,
+  };
+}
+
+/**
+ * Pick the IMDB ID for a series, preferring TMDB and falling back to Sonarr's own
+ */
+function toMissingSeries(
+  series: SonarrLibrarySeries,
+  tmdbImdbId: string | null
+): MissingSeries | null {
+  const imdbId = tmdbImdbId || series.imdbId;
+  if (!imdbId) return null;
+
+  return {
+    tvdbId: series.tvdbId,
+    title: series.title,
+    year: series.year || undefined,
+    imdbId,
+    imdbSource: tmdbImdbId ? 'tmdb' : 'sonarr',
+  };
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break
+ */
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format missing series as a CSV for IMDB's list import
+ * IMDB matches rows on the Const column; the others are for reading it
+ */
+export function toImdbImportCsv(missing: MissingSeries[]): string {
+  const header = ['Const', 'Title', 'Year', 'Description'];
+  const rows = missing.map((series) =>
+    [series.imdbId, series.title, series.year, `In Sonarr (TVDB ${series.tvdbId})`]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
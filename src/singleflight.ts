@@ -0,0 +1,66 @@
+/**
+ * Single-flight request coalescing
+ *
+ * When several callers ask for the same thing at once, only the first one does the
+ * work; the others join its in-flight promise and get the same result or error.
+ * Nothing is cached: once the promise settles, the next call starts fresh.
+ */
+
+/**
+ * Counters for one group of coalesced calls
+ */
+export interface SingleFlightStats {
+  /** Calls that did the work */
+  started: number;
+  /** Calls that joined a call already in flight */
+  joined: number;
+  /** Calls in flight right now */
+  inFlight: number;
+}
+
+/**
+ * Deduplicates concurrent calls by key
+ */
+export interface SingleFlight<T> {
+  run(key: string, fn: () => Promise<T>): Promise<T>;
+  stats(): SingleFlightStats;
+}
+
+const groups = new Map<string, SingleFlight<unknown>>();
+
+/**
+ * Create a named group of coalesced calls, reported by getSingleFlightStats
+ */
+export function createSingleFlight<T>(name: string): SingleFlight<T> {
+  const pending = new Map<string, Promise<T>>();
+  let started = 0;
+  let joined = 0;
+
+  const group: SingleFlight<T> = {
+    run(key, fn) {
+      const current = pending.get(key);
+      if (current) {
+        joined++;
+        return current;
+      }
+
+      started++;
+      const promise = fn().finally(() => {
+        pending.delete(key);
+      });
+      pending.set(key, promise);
+      return promise;
+    },
+    stats: () => ({ started, joined, inFlight: pending.size }),
+  };
+
+  groups.set(name, group as SingleFlight<unknown>);
+  return group;
+}
+
+/**
+ * Get the counters of every group
+ */
+export function getSingleFlightStats(): Record<string, SingleFlightStats> {
+  return Object.fromEntries([...groups].map(([name, group]) => [name, group.stats()]));
+}
@@ -0,0 +1,214 @@
+import { createLogger } from './logger.js';
+import { createFileStore } from './store.js';
+import type {
+  IMDBItem,
+  ListChange,
+  ListChanges,
+  ListSnapshot,
+  SnapshotDiff,
+  SnapshotItem,
+} from './types.js';
+
+/**
+ * List snapshots
+ *
+ * Every complete fetch of a list is kept as a snapshot of its item IDs, titles and
+ * types, so changes between fetches can be answered later. A fetch that finds the
+ * list unchanged doesn't add a snapshot. Snapshots older than SNAPSHOT_RETENTION_DAYS
+ * are pruned, except the latest one per list, which stays as the baseline.
+ */
+
+const log = createLogger('Snapshots');
+
+const snapshotStore = createFileStore<ListSnapshot>('snapshots');
+
+/**
+ * Get how long snapshots are kept, in days (default: 90)
+ */
+function getRetentionDays(): number {
+  const days = parseInt(process.env.SNAPSHOT_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : 90;
+}
+
+/**
+ * Get all snapshots of a list, oldest first
+ */
+export function getSnapshots(listId: string): ListSnapshot[] {
+  return snapshotStore
+    .values()
+    .filter((snapshot) => snapshot.listId === listId)
+    .sort((a, b) => a.takenAt - b.takenAt);
+}
+
+/**
+ * Remove snapshots past the retention period, keeping the latest of each list
+ * Returns the number of snapshots removed
+ */
+export function pruneSnapshots(now = Date.now()): number {
+  const cutoff = now - getRetentionDays() * 86400 * 1000;
+  const latest = new Map<string, number>();
+  for (const snapshot of snapshotStore.values()) {
+    latest.set(snapshot.listId, Math.max(latest.get(snapshot.listId) ?? 0, snapshot.takenAt));
+  }
+
+  let removed = 0;
+  for (const [key, snapshot] of snapshotStore.entries()) {
+    if (snapshot.takenAt < cutoff && snapshot.takenAt !== latest.get(snapshot.listId)) {
+      snapshotStore.delete(key);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    log.info(`Pruned ${removed} snapshots older than ${getRetentionDays()} days`);
+  }
+  return removed;
+}
+
+/**
+ * Store a snapshot of a list's items, unless they are the same as the latest snapshot
+ * Returns what changed since the latest snapshot, or null for the first one or no change
+ * An empty fetch after a non-empty snapshot is not stored: it usually means IMDB served
+ * a blocked or changed page, not that the list was emptied
+ */
+export function recordSnapshot(
+  listId: string,
+  items: IMDBItem[],
+  takenAt = Date.now()
+): SnapshotDiff | null {
+  const previous = getSnapshots(listId).pop();
+  const ids = items.map((item) => item.imdbId);
+
+  if (previous && previous.items.length > 0 && ids.length === 0) {
+    log.warn(`IMDB returned no items for ${listId}; keeping the previous snapshot`);
+    return null;
+  }
+
+  if (
+    previous &&
+    previous.items.length === ids.length &&
+    previous.items.every((item, i) => item.imdbId === ids[i])
+  ) {
+    return null;
+  }
+
+  const snapshot: ListSnapshot = {
+    listId,
+    takenAt,
+    items: items.map(({ imdbId, title, type, year }) => ({ imdbId, title, type, year })),
+  };
+  snapshotStore.set(`${listId}@${takenAt}`, snapshot);
+  log.info(`Stored snapshot of ${listId} (${items.length} items)`);
+
+  pruneSnapshots(takenAt);
+
+  if (!previous) return null;
+  const before = new Set(previous.items.map((item) => item.imdbId));
+  const after = new Set(ids);
+  const diff: SnapshotDiff = {
+    added: snapshot.items.filter((item) => !before.has(item.imdbId)),
+    removed: previous.items.filter((item) => !after.has(item.imdbId)),
+  };
+  return diff.added.length > 0 || diff.removed.length > 0 ? diff : null;
+}
+
+/**
+ * Get when each item currently on a list was first seen there
+ * An item that left and came back counts from its return
+ */
+export function getFirstSeen(listId: string): Map<string, number> {
+  const firstSeen = new Map<string, number>();
+  for (const snapshot of getSnapshots(listId)) {
+    const current = new Set(snapshot.items.map((item) => item.imdbId));
+    for (const id of firstSeen.keys()) {
+      if (!current.has(id)) firstSeen.delete(id);
+    }
+    for (const id of current) {
+      if (!firstSeen.has(id)) firstSeen.set(id, snapshot.takenAt);
+    }
+  }
+  return firstSeen;
+}
+
+/**
+ * Parse the ?since= query parameter
+ * Accepts an ISO date or time, or a duration back from now such as 24h, 7d or 2w
+ */
+export function parseSince(
+  value: unknown,
+  now = Date.now()
+): { since?: number } | { error: string } {
+  if (value === undefined || value === '') return {};
+
+  const text = String(value).trim();
+  const duration = text.match(/^(\d+)([hdw])$/);
+  if (duration) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[duration[2] as 'h' | 'd' | 'w'];
+    return { since: now - parseInt(duration[1], 10) * hours * 3600 * 1000 };
+  }
+
+  const parsed = Date.parse(text);
+  if (!Number.isFinite(parsed)) {
+    return {
+      error: `since must be an ISO date (2024-05-01) or a duration such as 24h, 7d or 2w, got "${text}"`,
+    };
+  }
+  return { since: parsed };
+}
+
+/**
+ * Get the items added to and removed from a list since a point in time
+ *
+ * Changes are measured from the latest snapshot taken at or before `since` (or the
+ * oldest retained snapshot, when there is none that old) to the latest snapshot.
+ * Items that were added and removed again in between don't show up.
+ */
+export function getListChanges(listId: string, since?: number): ListChanges {
+  const snapshots = getSnapshots(listId);
+  const empty: ListChanges = {
+    listId,
+    since: since !== undefined ? new Date(since).toISOString() : null,
+    from: null,
+    to: null,
+    snapshots: snapshots.length,
+    added: [],
+    removed: [],
+  };
+  if (snapshots.length === 0) return empty;
+
+  let start = 0;
+  if (since !== undefined) {
+    for (let i = 0; i < snapshots.length; i++) {
+      if (snapshots[i].takenAt <= since) start = i;
+    }
+  }
+
+  const window = snapshots.slice(start);
+  const baseline = window[0];
+  const latest = window[window.length - 1];
+
+  // Remember when each item last changed membership within the window
+  const changedAt = new Map<string, number>();
+  for (let i = 1; i < window.length; i++) {
+    const before = new Set(window[i - 1].items.map((item) => item.imdbId));
+    const after = new Set(window[i].items.map((item) => item.imdbId));
+    for (const id of after) if (!before.has(id)) changedAt.set(id, window[i].takenAt);
+    for (const id of before) if (!after.has(id)) changedAt.set(id, window[i].takenAt);
+  }
+
+  const toChange = (item: SnapshotItem): ListChange => ({
+    ...item,
+    changedAt: new Date(changedAt.get(item.imdbId) ?? latest.takenAt).toISOString(),
+  });
+
+  const baselineIds = new Set(baseline.items.map((item) => item.imdbId));
+  const latestIds = new Set(latest.items.map((item) => item.imdbId));
+
+  return {
+    ...empty,
+    from: new Date(baseline.takenAt).toISOString(),
+    to: new Date(latest.takenAt).toISOString(),
+    added: latest.items.filter((item) => !baselineIds.has(item.imdbId)).map(toChange),
+    removed: baseline.items.filter((item) => !latestIds.has(item.imdbId)).map(toChange),
+  };
+}
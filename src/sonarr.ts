@@ -0,0 +1,140 @@
+import { createLogger } from './logger.js';
+import type { SonarrAddOptions, SonarrLibrarySeries } from './types.js';
+
+/**
+ * Sonarr v3 API client
+ * Used to push list contents into Sonarr instead of waiting for it to poll
+ */
+
+const log = createLogger('Sonarr');
+
+/**
+ * Get the Sonarr base URL and API key from environment
+ */
+function getSonarrSettings(): { baseUrl: string; apiKey: string } {
+  const baseUrl = process.env.SONARR_URL;
+  const apiKey = process.env.SONARR_API_KEY;
+  if (!baseUrl || !apiKey) {
+    throw new Error('SONARR_URL and SONARR_API_KEY environment variables must be set to sync');
+  }
+  return { baseUrl: baseUrl.replace(/\/+$/, ''), apiKey };
+}
+
+/**
+ * Check if Sonarr URL and API key are configured
+ */
+export function isSonarrConfigured(): boolean {
+  return !!process.env.SONARR_URL && !!process.env.SONARR_API_KEY;
+}
+
+/**
+ * Send a request to the Sonarr API and parse the JSON response
+ */
+async function sonarrRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const { baseUrl, apiKey } = getSonarrSettings();
+  const url = `${baseUrl}/api/v3${path}`;
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'X-Api-Key': apiKey,
+      Accept: 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(
+      `Sonarr ${method} ${path} failed: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`
+    );
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * Get every series in the Sonarr library
+ */
+export async function getSeries(): Promise<SonarrLibrarySeries[]> {
+  return sonarrRequest<SonarrLibrarySeries[]>('GET', '/series');
+}
+
+/**
+ * Look up a series by TVDB ID through Sonarr's metadata source
+ */
+export async function lookupSeries(tvdbId: number): Promise<SonarrLibrarySeries | null> {
+  const results = await sonarrRequest<SonarrLibrarySeries[]>(
+    'GET',
+    `/series/lookup?term=${encodeURIComponent(`tvdb:${tvdbId}`)}`
+  );
+  return results.find((series) => series.tvdbId === tvdbId) ?? null;
+}
+
+/**
+ * Resolve tag labels to Sonarr tag IDs, creating any that don't exist yet
+ */
+export async function ensureTags(labels: string[]): Promise<number[]> {
+  if (labels.length === 0) return [];
+
+  const existing = await sonarrRequest<Array<{ id: number; label: string }>>('GET', '/tag');
+  const ids: number[] = [];
+
+  for (const label of labels) {
+    const normalized = label.toLowerCase();
+    let tag = existing.find((t) => t.label.toLowerCase() === normalized);
+    if (!tag) {
+      tag = await sonarrRequest<{ id: number; label: string }>('POST', '/tag', {
+        label: normalized,
+      });
+      existing.push(tag);
+      log.info(`Created tag "${normalized}" (${tag.id})`);
+    }
+    ids.push(tag.id);
+  }
+
+  return ids;
+}
+
+/**
+ * Add a looked-up series to Sonarr with the given options
+ */
+export async function addSeries(
+  lookup: SonarrLibrarySeries,
+  options: SonarrAddOptions,
+  tagIds: number[]
+): Promise<SonarrLibrarySeries> {
+  const body = {
+    ...lookup,
+    qualityProfileId: options.qualityProfileId,
+    languageProfileId: options.languageProfileId,
+    rootFolderPath: options.rootFolderPath,
+    seasonFolder: options.seasonFolder,
+    seriesType: options.seriesType,
+    monitored: options.monitor !== 'none',
+    tags: tagIds,
+    addOptions: {
+      monitor: options.monitor,
+      searchForMissingEpisodes: options.searchForMissingEpisodes,
+      searchForCutoffUnmetEpisodes: false,
+    },
+  };
+
+  return sonarrRequest<SonarrLibrarySeries>('POST', '/series', body);
+}
+
+/**
+ * Save changes to a series already in the library
+ */
+export async function updateSeries(series: SonarrLibrarySeries): Promise<SonarrLibrarySeries> {
+  return sonarrRequest<SonarrLibrarySeries>('PUT', `/series/${series.id}`, series);
+}
+
+/**
+ * Remove a series from the library, optionally deleting its files from disk
+ */
+export async function deleteSeries(id: number, deleteFiles = false): Promise<void> {
+  await sonarrRequest<void>('DELETE', `/series/${id}?deleteFiles=${deleteFiles}`);
+}
@@ -0,0 +1,194 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createLogger } from './logger.js';
+
+/**
+ * Append-only JSON file stores
+ *
+ * Each store is a single JSON Lines file under the data directory. Every write
+ * appends one record, so a crash can at worst lose the last line. The file is
+ * read lazily on first access and compacted, on load or after a write, once it
+ * holds too many stale records or too many bytes of them.
+ */
+
+const log = createLogger('Store');
+
+/**
+ * Get the directory where persistent data is kept
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || 'data');
+}
+
+/**
+ * A record in the store file: a value for a key, or a tombstone for a deleted key
+ */
+type StoreRecord<T> = { k: string; v: T } | { k: string; d: true };
+
+/**
+ * A persistent key/value store backed by a JSON Lines file
+ */
+export interface FileStore<T> {
+  /** Absolute path of the backing file */
+  readonly path: string;
+  get(key: string): T | undefined;
+  has(key: string): boolean;
+  set(key: string, value: T): void;
+  delete(key: string): boolean;
+  keys(): string[];
+  values(): T[];
+  entries(): Array<[string, T]>;
+  size(): number;
+  clear(): void;
+  /** Whether the backing file has been read yet */
+  isLoaded(): boolean;
+}
+
+// Compact once the file holds this many more records than live keys
+const COMPACT_THRESHOLD = 1000;
+// or once its stale records take up this many bytes, for stores of large values
+const COMPACT_BYTES_THRESHOLD = 8 * 1024 * 1024;
+
+/**
+ * Create a store persisted to `<DATA_DIR>/<name>.jsonl`
+ *
+ * The data directory is resolved on first access, not at creation time,
+ * so DATA_DIR may be set after the module that owns the store is imported.
+ */
+export function createFileStore<T>(name: string): FileStore<T> {
+  let entries: Map<string, T> | null = null;
+  let filePath: string | null = null;
+  let recordCount = 0;
+  // Bytes of the live record of each key, and of records that have been overwritten or deleted
+  let recordBytes = new Map<string, number>();
+  let staleBytes = 0;
+
+  const resolvePath = (): string => {
+    if (!filePath) {
+      filePath = path.join(getDataDir(), `${name}.jsonl`);
+    }
+    return filePath;
+  };
+
+  const write = (line: string, mode: 'append' | 'replace') => {
+    const file = resolvePath();
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      if (mode === 'append') {
+        fs.appendFileSync(file, line);
+      } else {
+        const tmp = `${file}.tmp`;
+        fs.writeFileSync(tmp, line);
+        fs.renameSync(tmp, file);
+      }
+    } catch (error) {
+      log.error(`Failed to write ${file}:`, error);
+    }
+  };
+
+  const compact = (map: Map<string, T>) => {
+    const lines = [...map].map(([k, v]) => JSON.stringify({ k, v }) + '\n').join('');
+    write(lines, 'replace');
+    recordCount = map.size;
+    staleBytes = 0;
+    log.info(`Compacted ${name} (${map.size} entries)`);
+  };
+
+  // Long-running processes overwrite the same keys all day, so stale records are
+  // also dropped as they pile up, not only when the file is next loaded
+  const compactIfStale = (map: Map<string, T>) => {
+    if (recordCount - map.size > COMPACT_THRESHOLD || staleBytes > COMPACT_BYTES_THRESHOLD) {
+      compact(map);
+    }
+  };
+
+  // Count a record line towards the stale bytes it makes of the key's previous record
+  const track = (key: string, line: string, deleted: boolean) => {
+    const bytes = Buffer.byteLength(line);
+    staleBytes += recordBytes.get(key) ?? 0;
+    if (deleted) {
+      recordBytes.delete(key);
+      staleBytes += bytes;
+    } else {
+      recordBytes.set(key, bytes);
+    }
+  };
+
+  const load = (): Map<string, T> => {
+    if (entries) return entries;
+
+    const map = new Map<string, T>();
+    const file = resolvePath();
+    recordCount = 0;
+    recordBytes = new Map();
+    staleBytes = 0;
+
+    try {
+      const raw = fs.readFileSync(file, 'utf8');
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const record = JSON.parse(line) as StoreRecord<T>;
+          recordCount++;
+          track(record.k, line, 'd' in record);
+          if ('d' in record) {
+            map.delete(record.k);
+          } else {
+            map.set(record.k, record.v);
+          }
+        } catch {
+          // Skip a torn or corrupt line and keep the rest
+        }
+      }
+      log.info(`Loaded ${map.size} entries from ${file}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error(`Failed to read ${file}:`, error);
+      }
+    }
+
+    entries = map;
+    compactIfStale(map);
+    return map;
+  };
+
+  return {
+    get path() {
+      return resolvePath();
+    },
+    get: (key) => load().get(key),
+    has: (key) => load().has(key),
+    set(key, value) {
+      const map = load();
+      map.set(key, value);
+      const line = JSON.stringify({ k: key, v: value }) + '\n';
+      write(line, 'append');
+      recordCount++;
+      track(key, line, false);
+      compactIfStale(map);
+    },
+    delete(key) {
+      const map = load();
+      if (!map.has(key)) return false;
+      map.delete(key);
+      const line = JSON.stringify({ k: key, d: true }) + '\n';
+      write(line, 'append');
+      recordCount++;
+      track(key, line, true);
+      compactIfStale(map);
+      return true;
+    },
+    keys: () => [...load().keys()],
+    values: () => [...load().values()],
+    entries: () => [...load().entries()],
+    size: () => load().size,
+    clear() {
+      load().clear();
+      write('', 'replace');
+      recordCount = 0;
+      recordBytes = new Map();
+      staleBytes = 0;
+    },
+    isLoaded: () => entries !== null,
+  };
+}
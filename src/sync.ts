@@ -0,0 +1,207 @@
+import { getConfig, getProfile } from './config.js';
+import { filterTVShows } from './imdb.js';
+import { createLogger } from './logger.js';
+import { fetchProfile } from './profiles.js';
+import { getSnapshots } from './snapshots.js';
+import { addSeries, ensureTags, getSeries, lookupSeries } from './sonarr.js';
+import { createFileStore } from './store.js';
+import { convertToSonarrFormat } from './tvdb.js';
+import type {
+  ListProfile,
+  SonarrSeries,
+  SyncEntry,
+  SyncPlan,
+  SyncRecord,
+  SyncResult,
+} from './types.js';
+
+/**
+ * Push sync into Sonarr
+ *
+ * Resolves a profile to Sonarr series and adds the ones Sonarr doesn't have yet,
+ * using the profile's own quality profile, root folder, monitor mode and tags.
+ * Every series a profile adds is recorded so later syncs know where it came from.
+ *
+ * planSync computes the same comparison without writing anything to Sonarr.
+ */
+
+const log = createLogger('Sync');
+
+const syncStore = createFileStore<SyncRecord>('sync');
+const runningSyncs = new Set<string>();
+
+/**
+ * Check whether a sync is already in progress for a profile
+ */
+export function isSyncRunning(profileName: string): boolean {
+  return runningSyncs.has(profileName);
+}
+
+/**
+ * Get the series a profile has added to Sonarr
+ */
+export function getSyncRecords(profileName: string): SyncRecord[] {
+  return syncStore.values().filter((record) => record.profile === profileName);
+}
+
+/**
+ * Get every sync record for a series, across all profiles
+ */
+export function getSeriesSyncRecords(tvdbId: number): SyncRecord[] {
+  return syncStore.values().filter((record) => record.tvdbId === tvdbId);
+}
+
+/**
+ * Get the records of the series a plan counts as added from a profile
+ * A bare list ID has no records of its own, so it also takes those of every configured
+ * profile that syncs the list: all of a single-source profile's, and of a profile with
+ * other sources only the series the list's snapshot history shows were on it.
+ */
+function getAddedRecords(profile: ListProfile): SyncRecord[] {
+  const records = new Map(getSyncRecords(profile.name).map((record) => [record.tvdbId, record]));
+  if (getProfile(profile.name)) return [...records.values()];
+
+  for (const listId of profile.sources) {
+    const onList = new Set(getSnapshots(listId).flatMap((s) => s.items.map((i) => i.imdbId)));
+    for (const syncing of Object.values(getConfig().profiles)) {
+      if (!syncing.sources.includes(listId)) continue;
+      for (const record of getSyncRecords(syncing.name)) {
+        const fromList =
+          syncing.sources.length === 1 || (record.imdbId && onList.has(record.imdbId));
+        if (fromList && !records.has(record.tvdbId)) records.set(record.tvdbId, record);
+      }
+    }
+  }
+  return [...records.values()];
+}
+
+/**
+ * Resolve a profile's TV shows to the series Sonarr should have
+ */
+async function resolveWantedSeries(profile: ListProfile): Promise<SonarrSeries[]> {
+  const { items, sources } = await fetchProfile(profile);
+  return convertToSonarrFormat(filterTVShows(items), sources);
+}
+
+/**
+ * Compare a profile with the Sonarr library without changing anything
+ * Series that a previous sync added and that have since left the profile are listed as removed
+ */
+export async function planSync(profile: ListProfile): Promise<SyncPlan> {
+  const wanted = await resolveWantedSeries(profile);
+  const library = new Map((await getSeries()).map((series) => [series.tvdbId, series]));
+
+  const toAdd: SyncEntry[] = [];
+  const present: SyncEntry[] = [];
+  for (const series of wanted) {
+    const entry: SyncEntry = { tvdbId: series.TvdbId, title: series.Title, imdbId: series.ImdbId };
+    const current = library.get(series.TvdbId);
+    if (current) {
+      present.push({ ...entry, sonarrId: current.id });
+    } else {
+      toAdd.push(entry);
+    }
+  }
+
+  const wantedIds = new Set(wanted.map((series) => series.TvdbId));
+  const removed: SyncEntry[] = getAddedRecords(profile)
+    .filter((record) => !wantedIds.has(record.tvdbId) && library.has(record.tvdbId))
+    .map((record) => {
+      const current = library.get(record.tvdbId)!;
+      return {
+        tvdbId: record.tvdbId,
+        title: current.title || record.title,
+        imdbId: record.imdbId,
+        sonarrId: current.id,
+      };
+    });
+
+  log.info(
+    `Plan for ${profile.name}: ${toAdd.length} to add, ${present.length} present, ${removed.length} removed`
+  );
+
+  return { profile: profile.name, generatedAt: new Date().toISOString(), toAdd, present, removed };
+}
+
+/**
+ * Add a profile's TV shows to Sonarr
+ * Series already in the library are left untouched
+ */
+export async function syncProfile(profile: ListProfile): Promise<SyncResult> {
+  const options = profile.sonarr;
+  if (!options) {
+    throw new Error(`Profile "${profile.name}" has no sonarr options`);
+  }
+  if (runningSyncs.has(profile.name)) {
+    throw new Error(`A sync is already running for profile "${profile.name}"`);
+  }
+
+  runningSyncs.add(profile.name);
+  const startedAt = new Date().toISOString();
+  const added: SyncEntry[] = [];
+  const existing: SyncEntry[] = [];
+  const failed: SyncEntry[] = [];
+
+  try {
+    const wanted = await resolveWantedSeries(profile);
+
+    const library = new Map((await getSeries()).map((series) => [series.tvdbId, series]));
+    const tagIds = await ensureTags(options.tags);
+
+    log.info(`${profile.name}: ${wanted.length} series, ${library.size} in Sonarr`);
+
+    for (const series of wanted) {
+      const entry: SyncEntry = {
+        tvdbId: series.TvdbId,
+        title: series.Title,
+        imdbId: series.ImdbId,
+      };
+
+      const current = library.get(series.TvdbId);
+      if (current) {
+        existing.push({ ...entry, sonarrId: current.id });
+        continue;
+      }
+
+      try {
+        const lookup = await lookupSeries(series.TvdbId);
+        if (!lookup) {
+          failed.push({ ...entry, error: 'Not found by Sonarr series lookup' });
+          continue;
+        }
+
+        const created = await addSeries(lookup, options, tagIds);
+        added.push({ ...entry, title: created.title || entry.title, sonarrId: created.id });
+        syncStore.set(`${profile.name}:${series.TvdbId}`, {
+          profile: profile.name,
+          tvdbId: series.TvdbId,
+          imdbId: series.ImdbId,
+          title: created.title || series.Title,
+          sonarrId: created.id,
+          monitor: options.monitor,
+          addedAt: Date.now(),
+        });
+        log.info(`${profile.name}: added ${entry.title} (TVDB ${entry.tvdbId})`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error(`${profile.name}: failed to add TVDB ${entry.tvdbId}: ${message}`);
+        failed.push({ ...entry, error: message });
+      }
+    }
+  } finally {
+    runningSyncs.delete(profile.name);
+  }
+
+  log.info(
+    `${profile.name}: ${added.length} added, ${existing.length} existing, ${failed.length} failed`
+  );
+
+  return {
+    profile: profile.name,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    added,
+    existing,
+    failed,
+  };
+}
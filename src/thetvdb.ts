@@ -0,0 +1,141 @@
+import { createLogger } from './logger.js';
+import type {
+  ResolverResult,
+  SeriesResolver,
+  TVDBLoginResponse,
+  TVDBRemoteIdResponse,
+} from './types.js';
+
+/**
+ * TheTVDB v4 API client
+ *
+ * Looks series up directly on TheTVDB by their IMDB ID, for shows TMDB has no
+ * TVDB ID for. Requests are authenticated with a bearer token obtained from
+ * TVDB_API_KEY (and TVDB_PIN for user-supported keys). Tokens last a month; a new
+ * one is requested before that, or as soon as TheTVDB rejects the current one.
+ */
+
+const log = createLogger('TVDB');
+
+const TVDB_API_BASE = 'https://api4.thetvdb.com/v4';
+
+// Tokens are valid for one month, so refresh well before they expire
+const TOKEN_LIFETIME_MS = 25 * 24 * 60 * 60 * 1000;
+
+let token: { value: string; expiresAt: number } | null = null;
+let pendingLogin: Promise<string> | null = null;
+
+/**
+ * Check if a TheTVDB API key is configured
+ */
+export function isTVDBConfigured(): boolean {
+  return !!process.env.TVDB_API_KEY;
+}
+
+/**
+ * Forget the current token so the next request logs in again
+ */
+export function resetTVDBToken(): void {
+  token = null;
+  pendingLogin = null;
+}
+
+/**
+ * Log in to TheTVDB and return a fresh token
+ */
+async function login(): Promise<string> {
+  const apikey = process.env.TVDB_API_KEY;
+  if (!apikey) {
+    throw new Error('TVDB_API_KEY environment variable is not set');
+  }
+
+  const response = await fetch(`${TVDB_API_BASE}/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(process.env.TVDB_PIN ? { apikey, pin: process.env.TVDB_PIN } : { apikey }),
+  });
+  if (!response.ok) {
+    throw new Error(`TheTVDB login failed: ${response.status}`);
+  }
+
+  const data = (await response.json()) as TVDBLoginResponse;
+  if (!data.data?.token) {
+    throw new Error('TheTVDB login returned no token');
+  }
+
+  token = { value: data.data.token, expiresAt: Date.now() + TOKEN_LIFETIME_MS };
+  log.info('Logged in');
+  return token.value;
+}
+
+/**
+ * Get a valid token, logging in when there is none or it is about to expire
+ * Concurrent callers share a single login request
+ */
+async function getToken(): Promise<string> {
+  if (token && token.expiresAt > Date.now()) {
+    return token.value;
+  }
+  if (!pendingLogin) {
+    pendingLogin = login().finally(() => {
+      pendingLogin = null;
+    });
+  }
+  return pendingLogin;
+}
+
+/**
+ * GET a TheTVDB API path, logging in again once if the token is rejected
+ */
+async function tvdbGet(path: string): Promise<Response> {
+  const request = async () =>
+    fetch(`${TVDB_API_BASE}${path}`, {
+      headers: { Authorization: `Bearer ${await getToken()}`, Accept: 'application/json' },
+    });
+
+  const response = await request();
+  if (response.status !== 401) {
+    return response;
+  }
+
+  log.info('Token rejected, logging in again');
+  token = null;
+  return request();
+}
+
+/**
+ * Find a series on TheTVDB by its IMDB ID
+ */
+export async function findSeriesByIMDBId(imdbId: string): Promise<ResolverResult> {
+  try {
+    const response = await tvdbGet(`/search/remoteid/${encodeURIComponent(imdbId)}`);
+    if (response.status === 404) {
+      return { outcome: 'not-found' };
+    }
+    if (!response.ok) {
+      log.error(`Remote ID search failed for ${imdbId}: ${response.status}`);
+      return { outcome: 'http-error', httpStatus: response.status };
+    }
+
+    const data = (await response.json()) as TVDBRemoteIdResponse;
+    const series = (data.data || []).find((result) => result.series)?.series;
+    if (!series) {
+      return { outcome: 'not-found' };
+    }
+
+    log.info(`Resolved ${imdbId} -> TVDB ${series.id}`);
+    return { outcome: 'resolved', tvdbId: series.id, title: series.name };
+  } catch (error) {
+    log.error(`Error finding ${imdbId}:`, error);
+    return { outcome: 'network-error' };
+  }
+}
+
+/**
+ * Resolver that asks TheTVDB directly
+ */
+export const tvdbResolver: SeriesResolver = {
+  name: 'tvdb',
+  isConfigured: isTVDBConfigured,
+  resolve: (imdbId) => findSeriesByIMDBId(imdbId),
+};
@@ -0,0 +1,239 @@
+/**
+ * TMDB HTTP client
+ *
+ * Every TMDB request in the process goes through tmdbGet, which shares one token
+ * bucket so concurrent API requests together stay under TMDB_RATE_LIMIT requests
+ * per second. A 429 pauses the bucket for as long as TMDB's Retry-After asks;
+ * 5xx responses, timeouts and network errors are retried with exponential backoff
+ * and jitter. Only when every attempt has failed is the request reported as an
+ * http-error or network-error.
+ */
+
+import { createLogger } from './logger.js';
+import { createCounter } from './metrics.js';
+
+const log = createLogger('TMDB');
+
+const TMDB_API_BASE = 'https://api.themoviedb.org/3';
+
+/**
+ * Outcome of a TMDB request: the parsed result, or why the request failed
+ */
+export type TMDBResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: 'http-error' | 'network-error'; status?: number };
+
+// A Retry-After longer than this many request timeouts is cut short, so one answer can't
+// stall every TMDB request for an hour
+const MAX_RETRY_AFTER_TIMEOUTS = 3;
+
+// Token bucket shared by every TMDB request; it starts full, capped at the rate limit on first use
+let tokens = Infinity;
+let lastRefill = 0;
+let pausedUntil = 0;
+let queue: Promise<void> = Promise.resolve();
+
+const stats = { requests: 0, retries: 0, rateLimited: 0, timeouts: 0 };
+
+const requestsMetric = createCounter(
+  'imdbarr_tmdb_requests_total',
+  'TMDB requests by endpoint and HTTP status, or timeout and network-error, counting each retry',
+  ['endpoint', 'status']
+);
+
+/**
+ * Read a numeric environment variable, falling back when it is missing or out of range
+ */
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * Get the TMDB client settings from environment
+ */
+export function getTMDBClientSettings(): {
+  rateLimit: number;
+  concurrency: number;
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+} {
+  return {
+    rateLimit: readNumber('TMDB_RATE_LIMIT', 40, 0.1),
+    concurrency: Math.floor(readNumber('TMDB_CONCURRENCY', 5, 1)),
+    timeoutMs: readNumber('TMDB_TIMEOUT_MS', 10000, 1),
+    maxRetries: Math.floor(readNumber('TMDB_MAX_RETRIES', 3, 0)),
+    retryDelayMs: readNumber('TMDB_RETRY_DELAY_MS', 500, 0),
+  };
+}
+
+/**
+ * Get the TMDB API key from environment
+ */
+function getTMDBApiKey(): string {
+  const key = process.env.TMDB_API_KEY;
+  if (!key) {
+    throw new Error(
+      'TMDB_API_KEY environment variable is not set. Get a free API key at https://www.themoviedb.org/settings/api'
+    );
+  }
+  return key;
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait for a token from the bucket
+ * Waiters are served in order, and nobody gets a token while a 429 pause is active
+ */
+function acquireToken(rateLimit: number): Promise<void> {
+  const turn = queue.then(async () => {
+    const pause = pausedUntil - Date.now();
+    if (pause > 0) await sleep(pause);
+
+    const refill = () => {
+      const now = Date.now();
+      tokens = Math.min(rateLimit, tokens + ((now - lastRefill) / 1000) * rateLimit);
+      lastRefill = now;
+    };
+    refill();
+    if (tokens < 1) {
+      await sleep(((1 - tokens) / rateLimit) * 1000);
+      refill();
+    }
+    tokens -= 1;
+  });
+  queue = turn.catch(() => {});
+  return turn;
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date, into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  if (/^\d+(\.\d+)?$/.test(header.trim())) {
+    return parseFloat(header) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Get the delay before a retry: exponential, with half of it randomized
+ */
+function backoffMs(attempt: number, baseDelayMs: number): number {
+  const delay = baseDelayMs * 2 ** attempt;
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * GET a TMDB API path and parse the JSON response, retrying what can be retried
+ */
+export async function tmdbGet<T>(
+  path: string,
+  params: Record<string, string> = {}
+): Promise<TMDBResult<T>> {
+  const settings = getTMDBClientSettings();
+  const query = new URLSearchParams({ api_key: getTMDBApiKey(), ...params });
+  const url = `${TMDB_API_BASE}${path}?${query}`;
+  // IDs are replaced so every lookup of the same kind shares one series
+  const endpoint = path.replace(/\/(tt)?\d+/g, '/{id}');
+  let failure: Extract<TMDBResult<T>, { ok: false }> = { ok: false, reason: 'network-error' };
+
+  for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+    await acquireToken(settings.rateLimit);
+    stats.requests++;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+    let delay = backoffMs(attempt, settings.retryDelayMs);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      requestsMetric.inc({ endpoint, status: response.status });
+      if (response.ok) {
+        return { ok: true, data: (await response.json()) as T };
+      }
+
+      failure = { ok: false, reason: 'http-error', status: response.status };
+      if (response.status === 429) {
+        stats.rateLimited++;
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        delay = Math.min(retryAfter ?? delay, settings.timeoutMs * MAX_RETRY_AFTER_TIMEOUTS);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+      } else if (response.status < 500) {
+        return failure;
+      }
+    } catch (error) {
+      failure = { ok: false, reason: 'network-error' };
+      requestsMetric.inc({
+        endpoint,
+        status: controller.signal.aborted ? 'timeout' : 'network-error',
+      });
+      if (controller.signal.aborted) {
+        stats.timeouts++;
+        log.warn(`${path} timed out after ${settings.timeoutMs}ms`);
+      } else {
+        log.warn(`${path} failed:`, error instanceof Error ? error.message : error);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < settings.maxRetries) {
+      stats.retries++;
+      log.warn(`Retrying ${path} in ${Math.round(delay)}ms (${failure.status ?? failure.reason})`);
+      await sleep(delay);
+    }
+  }
+
+  return failure;
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * Results keep the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Get TMDB client counters
+ */
+export function getTMDBClientStats(): typeof stats {
+  return { ...stats };
+}
+
+/**
+ * Reset the token bucket and counters
+ */
+export function resetTMDBClient(): void {
+  tokens = Infinity;
+  lastRefill = 0;
+  pausedUntil = 0;
+  queue = Promise.resolve();
+  stats.requests = 0;
+  stats.retries = 0;
+  stats.rateLimited = 0;
+  stats.timeouts = 0;
+}
@@ -1,167 +1,700 @@
 import NodeCache from 'node-cache';
-import type { IMDBItem, SonarrSeries, TMDBExternalIds, TMDBFindResponse } from './types.js';
+import { createLogger } from './logger.js';
+import { mappingResolver } from './mapping.js';
+import { pickBestMatch } from './match.js';
+import { createCounter, registerCollector } from './metrics.js';
+import { findExclusion, getMappingOverride } from './overrides.js';
+import { createSingleFlight } from './singleflight.js';
+import { createFileStore } from './store.js';
+import { tvdbResolver } from './thetvdb.js';
+import { getTMDBClientSettings, mapWithConcurrency, tmdbGet } from './tmdb.js';
+import type { TMDBResult } from './tmdb.js';
+import type {
+  CacheStats,
+  CachedClassification,
+  CachedFailure,
+  CachedMovie,
+  CachedSeries,
+  ExclusionScope,
+  IMDBItem,
+  ItemResolution,
+  RadarrMovie,
+  ResolutionFailureReason,
+  ResolverName,
+  ResolverResult,
+  SeriesHint,
+  SeriesResolution,
+  SeriesResolver,
+  SonarrSeries,
+  TMDBExternalIds,
+  TMDBFindResponse,
+  TMDBSearchTVResponse,
+} from './types.js';
 
 /**
  * TMDB API client to resolve IMDB IDs to TVDB IDs
  * TMDB is used because it has a free API that can look up by IMDB ID
  * and provides TVDB IDs which Sonarr requires
+ *
+ * Series are resolved by a chain of resolvers tried in the order set by
+ * RESOLVER_CHAIN, so shows TMDB can't map can still be found on TheTVDB or in a
+ * local mapping file. The first resolver that finds the series wins.
  */
 
-const TMDB_API_BASE = 'https://api.themoviedb.org/3';
+const tmdbLog = createLogger('TMDB');
+const cacheLog = createLogger('Cache');
+const resolveLog = createLogger('Resolve');
+const convertLog = createLogger('Convert');
 
 // Cache resolved IDs for 24 hours to reduce API calls
 const cache = new NodeCache({ stdTTL: 86400, checkperiod: 3600 });
 
+// Resolved series are also persisted to disk so restarts don't re-resolve everything
+const seriesStore = createFileStore<CachedSeries>('series');
+let diskHits = 0;
+
+// Concurrent lookups of the same IMDB ID share one walk through the resolver chain
+const seriesFlights = createSingleFlight<SeriesResolution>('series');
+
+// IMDB IDs that could not be resolved, kept for a shorter time than successes
+const negativeCache = new NodeCache({ checkperiod: 600 });
+
+// Reverse lookups (TVDB -> IMDB) for exporting Sonarr series back to IMDB lists
+const reverseCache = new NodeCache({ stdTTL: 86400, checkperiod: 3600 });
+
+// Movie resolutions live in their own namespace so they never collide with TV lookups
+const movieCache = new NodeCache({ stdTTL: 86400, checkperiod: 3600 });
+
+// Whether TMDB knows items IMDB gave no type as TV shows
+const classificationCache = new NodeCache({ checkperiod: 3600 });
+
+const resolutionsMetric = createCounter(
+  'imdbarr_resolutions_total',
+  'List items resolved to TVDB series, by outcome and the resolver that found them',
+  ['outcome', 'provider']
+);
+
+registerCollector('imdbarr_cache_keys', 'Entries in each resolution cache', 'gauge', () => {
+  const stats = getCacheStats();
+  return [
+    { labels: { cache: 'series' }, value: stats.keys },
+    { labels: { cache: 'series-disk' }, value: stats.disk.entries },
+    { labels: { cache: 'negative' }, value: stats.negative.keys },
+    { labels: { cache: 'movie' }, value: movieCache.keys().length },
+    { labels: { cache: 'reverse' }, value: reverseCache.keys().length },
+    { labels: { cache: 'classification' }, value: classificationCache.keys().length },
+  ];
+});
+registerCollector('imdbarr_cache_hits_total', 'Lookups answered by a cache', 'counter', () => [
+  { labels: { cache: 'series' }, value: cache.getStats().hits },
+  { labels: { cache: 'series-disk' }, value: diskHits },
+  { labels: { cache: 'movie' }, value: movieCache.getStats().hits },
+]);
+registerCollector(
+  'imdbarr_cache_misses_total',
+  'Lookups a cache could not answer',
+  'counter',
+  () => [
+    { labels: { cache: 'series' }, value: cache.getStats().misses },
+    { labels: { cache: 'movie' }, value: movieCache.getStats().misses },
+  ]
+);
+
 /**
- * Get the TMDB API key from environment
+ * Get how long a resolved series stays valid, in seconds (default: 24 hours)
  */
-function getTMDBApiKey(): string {
-  const key = process.env.TMDB_API_KEY;
-  if (!key) {
-    throw new Error(
-      'TMDB_API_KEY environment variable is not set. Get a free API key at https://www.themoviedb.org/settings/api'
-    );
-  }
-  return key;
+function getCacheTtlSeconds(): number {
+  const ttl = parseInt(process.env.CACHE_TTL_SECONDS || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 86400;
+}
+
+/**
+ * Get how long an unresolvable IMDB ID stays cached, in seconds (default: 6 hours)
+ */
+function getNegativeCacheTtlSeconds(): number {
+  const ttl = parseInt(process.env.NEGATIVE_CACHE_TTL_SECONDS || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 21600;
 }
 
 /**
  * Find a TV show on TMDB by its IMDB ID
  */
-async function findByIMDBId(imdbId: string): Promise<{ tmdbId: number; name: string } | null> {
-  const apiKey = getTMDBApiKey();
-  const url = `${TMDB_API_BASE}/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
+async function findByIMDBId(
+  imdbId: string
+): Promise<TMDBResult<{ tmdbId: number; name: string } | null>> {
+  const result = await tmdbGet<TMDBFindResponse>(`/find/${imdbId}`, {
+    external_source: 'imdb_id',
+  });
+  if (!result.ok) {
+    tmdbLog.error(`Find request failed for ${imdbId}: ${result.status ?? result.reason}`);
+    return result;
+  }
 
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.error(`[TMDB] Find request failed for ${imdbId}: ${response.status}`);
-      return null;
-    }
+  // Check TV results first
+  const show = result.data.tv_results?.[0];
+  return { ok: true, data: show ? { tmdbId: show.id, name: show.name } : null };
+}
 
-    const data = (await response.json()) as TMDBFindResponse;
+/**
+ * Search TMDB for a TV show by title and year, when /find has no match for its IMDB ID
+ * Returns the best candidate above the fuzzy match threshold
+ */
+async function findByTitle(
+  title: string,
+  year?: number
+): Promise<TMDBResult<{ tmdbId: number; name: string; confidence: number } | null>> {
+  const result = await tmdbGet<TMDBSearchTVResponse>('/search/tv', {
+    query: title,
+    include_adult: 'false',
+  });
+  if (!result.ok) {
+    tmdbLog.error(`Search request failed for "${title}": ${result.status ?? result.reason}`);
+    return result;
+  }
 
-    // Check TV results first
-    if (data.tv_results && data.tv_results.length > 0) {
-      const show = data.tv_results[0];
-      return { tmdbId: show.id, name: show.name };
-    }
+  const best = pickBestMatch(result.data.results || [], title, year);
+  if (!best) {
+    return { ok: true, data: null };
+  }
+  return {
+    ok: true,
+    data: { tmdbId: best.candidate.id, name: best.candidate.name, confidence: best.confidence },
+  };
+}
 
+/**
+ * Find a movie on TMDB by its IMDB ID
+ */
+async function findMovieByIMDBId(
+  imdbId: string
+): Promise<{ tmdbId: number; title: string; year?: number } | null> {
+  const result = await tmdbGet<TMDBFindResponse>(`/find/${imdbId}`, {
+    external_source: 'imdb_id',
+  });
+  if (!result.ok) {
+    tmdbLog.error(`Find request failed for ${imdbId}: ${result.status ?? result.reason}`);
     return null;
-  } catch (error) {
-    console.error(`[TMDB] Error finding ${imdbId}:`, error);
+  }
+
+  const movie = result.data.movie_results?.[0];
+  if (!movie) {
     return null;
   }
+
+  const year =
+    movie.release_date && /^\d{4}/.test(movie.release_date)
+      ? parseInt(movie.release_date.substring(0, 4), 10)
+      : undefined;
+  return { tmdbId: movie.id, title: movie.title, year };
 }
 
 /**
  * Get external IDs (including TVDB) for a TMDB TV show
  */
-async function getExternalIds(tmdbId: number): Promise<TMDBExternalIds | null> {
-  const apiKey = getTMDBApiKey();
-  const url = `${TMDB_API_BASE}/tv/${tmdbId}/external_ids?api_key=${apiKey}`;
+async function getExternalIds(tmdbId: number): Promise<TMDBResult<TMDBExternalIds>> {
+  const result = await tmdbGet<TMDBExternalIds>(`/tv/${tmdbId}/external_ids`);
+  if (!result.ok) {
+    tmdbLog.error(
+      `External IDs request failed for TMDB ID ${tmdbId}: ${result.status ?? result.reason}`
+    );
+  }
+  return result;
+}
 
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.error(`[TMDB] External IDs request failed for TMDB ID ${tmdbId}: ${response.status}`);
-      return null;
-    }
+/**
+ * Find a TV show on TMDB by its TVDB ID
+ */
+async function findByTVDBId(tvdbId: number): Promise<TMDBResult<number | null>> {
+  const result = await tmdbGet<TMDBFindResponse>(`/find/${tvdbId}`, {
+    external_source: 'tvdb_id',
+  });
+  if (!result.ok) {
+    tmdbLog.error(`Find request failed for TVDB ${tvdbId}: ${result.status ?? result.reason}`);
+    return result;
+  }
+  return { ok: true, data: result.data.tv_results?.[0]?.id ?? null };
+}
 
-    return (await response.json()) as TMDBExternalIds;
-  } catch (error) {
-    console.error(`[TMDB] Error getting external IDs for ${tmdbId}:`, error);
-    return null;
+/**
+ * Look up a TV show on TMDB by IMDB ID, then its TVDB ID
+ */
+async function resolveWithTMDB(imdbId: string): Promise<ResolverResult> {
+  const findResult = await findByIMDBId(imdbId);
+  if (!findResult.ok) {
+    return { outcome: findResult.reason, httpStatus: findResult.status };
   }
+  if (!findResult.data) {
+    tmdbLog.info(`No TV show found for ${imdbId}`);
+    return { outcome: 'not-found' };
+  }
+  return withTVDBId(imdbId, findResult.data.tmdbId, findResult.data.name);
 }
 
 /**
- * Resolve an IMDB ID to TVDB ID via TMDB
+ * Search for a TV show on TMDB by title and year, then its TVDB ID
  */
-export async function resolveIMDBToTVDB(
-  imdbId: string
-): Promise<{ tvdbId: number; tmdbId?: number; title: string } | null> {
-  // Check cache first
-  const cached = cache.get<{ tvdbId: number; tmdbId?: number; title: string }>(imdbId);
+async function resolveWithTMDBSearch(imdbId: string, hint?: SeriesHint): Promise<ResolverResult> {
+  if (!hint?.title) {
+    return { outcome: 'not-found' };
+  }
+
+  const searchResult = await findByTitle(hint.title, hint.year);
+  if (!searchResult.ok) {
+    return { outcome: searchResult.reason, httpStatus: searchResult.status };
+  }
+  if (!searchResult.data) {
+    return { outcome: 'not-found' };
+  }
+
+  const { tmdbId, name, confidence } = searchResult.data;
+  tmdbLog.info(`Fuzzy match for ${imdbId}: "${hint.title}" -> "${name}" (${confidence})`);
+  const result = await withTVDBId(imdbId, tmdbId, name);
+  return result.outcome === 'resolved' ? { ...result, match: 'fuzzy', confidence } : result;
+}
+
+/**
+ * Get the TVDB ID of a show found on TMDB
+ */
+async function withTVDBId(imdbId: string, tmdbId: number, name: string): Promise<ResolverResult> {
+  const externalIds = await getExternalIds(tmdbId);
+  if (!externalIds.ok) {
+    return { outcome: externalIds.reason, tmdbId, httpStatus: externalIds.status };
+  }
+  if (!externalIds.data.tvdb_id) {
+    tmdbLog.info(`No TVDB ID found for ${imdbId} (TMDB: ${tmdbId})`);
+    return { outcome: 'no-tvdb-id', tmdbId };
+  }
+  return { outcome: 'resolved', tvdbId: externalIds.data.tvdb_id, tmdbId, title: name };
+}
+
+const RESOLVERS: Record<ResolverName, SeriesResolver> = {
+  mapping: mappingResolver,
+  tmdb: { name: 'tmdb', isConfigured: isTMDBConfigured, resolve: resolveWithTMDB },
+  tvdb: tvdbResolver,
+  'tmdb-search': {
+    name: 'tmdb-search',
+    isConfigured: isTMDBConfigured,
+    resolve: resolveWithTMDBSearch,
+  },
+};
+
+const DEFAULT_RESOLVER_CHAIN: ResolverName[] = ['mapping', 'tmdb', 'tvdb', 'tmdb-search'];
+
+/**
+ * Get the resolvers to try, in order, from RESOLVER_CHAIN
+ * Throws if the chain names a resolver that doesn't exist
+ */
+export function getResolverChain(): SeriesResolver[] {
+  const names = process.env.RESOLVER_CHAIN
+    ? process.env.RESOLVER_CHAIN.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+    : DEFAULT_RESOLVER_CHAIN;
+
+  const unknown = names.filter((name) => !Object.prototype.hasOwnProperty.call(RESOLVERS, name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `RESOLVER_CHAIN has unknown resolvers: ${unknown.join(', ')}. Expected any of: ${Object.keys(RESOLVERS).join(', ')}`
+    );
+  }
+  return [...new Set(names)].map((name) => RESOLVERS[name as ResolverName]);
+}
+
+/**
+ * Check whether any resolver in RESOLVER_CHAIN can run
+ */
+export function isResolverConfigured(): boolean {
+  return getResolverChain().some((resolver) => resolver.isConfigured());
+}
+
+/**
+ * Decide which failure to report when no resolver found a series
+ * Transient errors win because a retry may still succeed, then no-tvdb-id because it
+ * says more than not-found
+ */
+function worseFailure(
+  current: Exclude<ResolverResult, { outcome: 'resolved' }> | undefined,
+  next: Exclude<ResolverResult, { outcome: 'resolved' }>
+): Exclude<ResolverResult, { outcome: 'resolved' }> {
+  const rank: Record<ResolutionFailureReason, number> = {
+    'not-found': 0,
+    'no-tvdb-id': 1,
+    'http-error': 2,
+    'network-error': 2,
+  };
+  if (!current) return next;
+  const worse = rank[next.outcome] > rank[current.outcome] ? next : current;
+  return { ...worse, tmdbId: worse.tmdbId ?? current.tmdbId ?? next.tmdbId };
+}
+
+/**
+ * Remember why an IMDB ID could not be resolved
+ * Only permanent failures are cached; transient ones are retried on the next request
+ */
+function recordFailure(
+  imdbId: string,
+  reason: ResolutionFailureReason,
+  details: { tmdbId?: number; httpStatus?: number } = {}
+): SeriesResolution {
+  if (reason === 'not-found' || reason === 'no-tvdb-id') {
+    const entry: CachedFailure = { reason, tmdbId: details.tmdbId, failedAt: Date.now() };
+    negativeCache.set(imdbId, entry, getNegativeCacheTtlSeconds());
+  }
+  return { outcome: reason, imdbId, ...details, cached: false };
+}
+
+/**
+ * Turn a cached series into a resolution
+ */
+function fromCache(entry: CachedSeries): SeriesResolution {
+  return {
+    outcome: 'resolved',
+    imdbId: entry.imdbId,
+    tvdbId: entry.tvdbId,
+    tmdbId: entry.tmdbId,
+    title: entry.title,
+    cached: true,
+    provider: entry.provider ?? 'tmdb',
+    ...(entry.match === 'fuzzy' ? { match: entry.match, confidence: entry.confidence } : {}),
+  };
+}
+
+/**
+ * Resolve an IMDB ID to a TVDB series, reporting why when it can't be resolved
+ *
+ * Each configured resolver in the chain is tried in turn until one finds the series.
+ * The title hint is used by the tmdb-search resolver, whose matches are marked fuzzy.
+ * Concurrent calls for the same IMDB ID share one lookup.
+ * A mapping override pinned by an admin wins over the cache and every resolver.
+ */
+export async function resolveSeries(imdbId: string, hint?: SeriesHint): Promise<SeriesResolution> {
+  const override = getMappingOverride(imdbId);
+  if (override) {
+    return {
+      outcome: 'resolved',
+      imdbId,
+      tvdbId: override.tvdbId,
+      title: override.title ?? hint?.title ?? '',
+      cached: false,
+      provider: 'override',
+    };
+  }
+
+  // Check the in-memory cache first, then the on-disk store
+  const cached = cache.get<CachedSeries>(imdbId);
   if (cached) {
-    console.log(`[Cache] Hit for ${imdbId}: TVDB ${cached.tvdbId}`);
-    return cached;
+    cacheLog.debug(`Hit for ${imdbId}: TVDB ${cached.tvdbId}`);
+    return fromCache(cached);
   }
 
-  console.log(`[TMDB] Resolving ${imdbId} to TVDB ID...`);
+  const stored = seriesStore.get(imdbId);
+  if (stored) {
+    const ageSeconds = (Date.now() - stored.resolvedAt) / 1000;
+    const remaining = Math.floor(getCacheTtlSeconds() - ageSeconds);
+    if (remaining > 0) {
+      diskHits++;
+      cache.set(imdbId, stored, remaining);
+      cacheLog.debug(`Disk hit for ${imdbId}: TVDB ${stored.tvdbId}`);
+      return fromCache(stored);
+    }
+  }
 
-  // Find the show on TMDB
-  const findResult = await findByIMDBId(imdbId);
-  if (!findResult) {
-    console.log(`[TMDB] No TV show found for ${imdbId}`);
-    return null;
+  const failed = negativeCache.get<CachedFailure>(imdbId);
+  if (failed) {
+    return { outcome: failed.reason, imdbId, tmdbId: failed.tmdbId, cached: true };
   }
 
-  // Get the TVDB ID
-  const externalIds = await getExternalIds(findResult.tmdbId);
-  if (!externalIds?.tvdb_id) {
-    console.log(`[TMDB] No TVDB ID found for ${imdbId} (TMDB: ${findResult.tmdbId})`);
-    return null;
+  return seriesFlights.run(imdbId, () => resolveWithChain(imdbId, hint));
+}
+
+/**
+ * Try each configured resolver in turn and cache what they find
+ */
+async function resolveWithChain(imdbId: string, hint?: SeriesHint): Promise<SeriesResolution> {
+  const chain = getResolverChain().filter((resolver) => resolver.isConfigured());
+  if (chain.length === 0) {
+    throw new Error(
+      'No series resolver is configured. Set TMDB_API_KEY, TVDB_API_KEY or MAPPING_FILE'
+    );
+  }
+
+  resolveLog.debug(`Resolving ${imdbId} to TVDB ID...`);
+
+  let failure: Exclude<ResolverResult, { outcome: 'resolved' }> | undefined;
+  for (const resolver of chain) {
+    const result = await resolver.resolve(imdbId, hint);
+    if (result.outcome !== 'resolved') {
+      failure = worseFailure(failure, result);
+      continue;
+    }
+
+    // Cache the result in memory and on disk
+    const entry: CachedSeries = {
+      tvdbId: result.tvdbId,
+      tmdbId: result.tmdbId,
+      title: result.title,
+      imdbId,
+      resolvedAt: Date.now(),
+      provider: resolver.name,
+      ...(result.match === 'fuzzy' ? { match: result.match, confidence: result.confidence } : {}),
+    };
+    cache.set(imdbId, entry, getCacheTtlSeconds());
+    seriesStore.set(imdbId, entry);
+    resolveLog.info(`Resolved ${imdbId} -> TVDB ${entry.tvdbId} (${resolver.name})`);
+
+    return { ...fromCache(entry), cached: false };
   }
 
-  const result = {
-    tvdbId: externalIds.tvdb_id,
-    tmdbId: findResult.tmdbId,
-    title: findResult.name,
+  const { outcome, tmdbId, httpStatus } = failure!;
+  return recordFailure(imdbId, outcome, { tmdbId, httpStatus });
+}
+
+/**
+ * Resolve an IMDB ID to TVDB ID via TMDB
+ * Returns null when the series can't be resolved or is excluded (globally, or from `listId`)
+ */
+export async function resolveIMDBToTVDB(
+  imdbId: string,
+  listId?: string
+): Promise<{ tvdbId: number; tmdbId?: number; title: string; overridden?: boolean } | null> {
+  if (findExclusion({ imdbId }, listId)) {
+    return null;
+  }
+  const resolution = await resolveSeries(imdbId);
+  if (resolution.outcome !== 'resolved' || findExclusion({ tvdbId: resolution.tvdbId }, listId)) {
+    return null;
+  }
+  return {
+    tvdbId: resolution.tvdbId,
+    tmdbId: resolution.tmdbId,
+    title: resolution.title,
+    ...(resolution.provider === 'override' ? { overridden: true } : {}),
   };
+}
 
-  // Cache the result
-  cache.set(imdbId, result);
-  console.log(`[TMDB] Resolved ${imdbId} -> TVDB ${result.tvdbId}`);
+/**
+ * Resolve a TVDB series to its IMDB ID via TMDB external IDs
+ * Pass the TMDB ID when it is already known to skip the find request
+ * Returns null when TMDB has no IMDB ID for the series or can't be reached
+ */
+export async function resolveTVDBToIMDB(tvdbId: number, tmdbId?: number): Promise<string | null> {
+  const cached = reverseCache.get<{ imdbId: string | null }>(tvdbId);
+  if (cached) {
+    return cached.imdbId;
+  }
 
-  return result;
+  let showId = tmdbId;
+  if (!showId) {
+    const findResult = await findByTVDBId(tvdbId);
+    if (!findResult.ok) return null;
+    if (!findResult.data) {
+      reverseCache.set(tvdbId, { imdbId: null }, getNegativeCacheTtlSeconds());
+      return null;
+    }
+    showId = findResult.data;
+  }
+
+  const externalIds = await getExternalIds(showId);
+  if (!externalIds.ok) return null;
+
+  const imdbId = externalIds.data.imdb_id || null;
+  reverseCache.set(
+    tvdbId,
+    { imdbId },
+    imdbId ? getCacheTtlSeconds() : getNegativeCacheTtlSeconds()
+  );
+  tmdbLog.info(`Resolved TVDB ${tvdbId} -> ${imdbId ?? 'no IMDB ID'}`);
+  return imdbId;
+}
+
+/**
+ * Apply a cached TMDB classification to an item IMDB gave no type
+ */
+function applyClassification(item: IMDBItem, cached?: CachedClassification): IMDBItem {
+  if (item.type !== 'unknown') return { ...item, typeSource: 'imdb' };
+  if (cached?.isTV) return { ...item, type: 'tvSeries', typeSource: 'tmdb' };
+  return { ...item, typeSource: 'imdb' };
+}
+
+/**
+ * Mark where each item's type came from, using only classifications already cached
+ * Never calls TMDB, so it is cheap enough for the metadata endpoints
+ */
+export function applyCachedClassifications(items: IMDBItem[]): IMDBItem[] {
+  return items.map((item) =>
+    applyClassification(
+      item,
+      item.type === 'unknown'
+        ? classificationCache.get<CachedClassification>(item.imdbId)
+        : undefined
+    )
+  );
+}
+
+/**
+ * Look up items IMDB gave no type on TMDB /find, TMDB_CONCURRENCY at a time
+ * Items TMDB has TV results for become tvSeries. Classifications are cached like
+ * resolutions; TMDB errors are not, and leave the item unknown until the next request.
+ */
+export async function classifyUnknownItems(items: IMDBItem[]): Promise<IMDBItem[]> {
+  return mapWithConcurrency(items, getTMDBClientSettings().concurrency, async (item) => {
+    if (item.type !== 'unknown') return applyClassification(item);
+
+    const cached = classificationCache.get<CachedClassification>(item.imdbId);
+    if (cached) return applyClassification(item, cached);
+
+    const found = await findByIMDBId(item.imdbId);
+    if (!found.ok) return applyClassification(item);
+
+    const entry: CachedClassification = found.data
+      ? { isTV: true, tmdbId: found.data.tmdbId, classifiedAt: Date.now() }
+      : { isTV: false, classifiedAt: Date.now() };
+    classificationCache.set(
+      item.imdbId,
+      entry,
+      entry.isTV ? getCacheTtlSeconds() : getNegativeCacheTtlSeconds()
+    );
+    tmdbLog.info(
+      `Classified ${item.imdbId} as ${entry.isTV ? `TV (TMDB ${entry.tmdbId})` : 'not TV'}`
+    );
+    return applyClassification(item, entry);
+  });
+}
+
+/**
+ * The list IDs whose exclusions apply to an item
+ */
+function exclusionLists(imdbId: string, scope?: ExclusionScope): string | string[] | undefined {
+  return typeof scope === 'string' ? scope : scope?.get(imdbId);
+}
+
+/**
+ * Resolve IMDB items to TVDB series, TMDB_CONCURRENCY at a time
+ * An item that throws is reported with its error instead of failing the whole list.
+ * Items excluded by IMDB ID are never resolved; those excluded by TVDB ID are marked
+ * once resolved. Pass the list ID, or the source lists of a combined list's items,
+ * to apply those lists' exclusions too.
+ */
+export async function resolveItems(
+  items: IMDBItem[],
+  scope?: ExclusionScope
+): Promise<ItemResolution[]> {
+  return mapWithConcurrency(
+    items,
+    getTMDBClientSettings().concurrency,
+    async (item): Promise<ItemResolution> => {
+      try {
+        const listIds = exclusionLists(item.imdbId, scope);
+        const byImdbId = findExclusion({ imdbId: item.imdbId }, listIds);
+        if (byImdbId) {
+          resolutionsMetric.inc({ outcome: 'excluded' });
+          return { item, excluded: byImdbId };
+        }
+
+        const resolution = await resolveSeries(item.imdbId, { title: item.title, year: item.year });
+        const byTvdbId =
+          resolution.outcome === 'resolved'
+            ? findExclusion({ tvdbId: resolution.tvdbId }, listIds)
+            : undefined;
+        resolutionsMetric.inc({
+          outcome: byTvdbId ? 'excluded' : resolution.outcome,
+          provider: resolution.outcome === 'resolved' ? resolution.provider : '',
+        });
+        return byTvdbId ? { item, resolution, excluded: byTvdbId } : { item, resolution };
+      } catch (error) {
+        convertLog.error(`Error processing ${item.imdbId}:`, error);
+        resolutionsMetric.inc({ outcome: 'error' });
+        return { item, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
 }
 
 /**
  * Convert IMDB items to Sonarr-compatible format
  * This resolves IMDB IDs to TVDB IDs which Sonarr requires
+ * Excluded items are left out; series pinned by a mapping override are marked Overridden
  */
-export async function convertToSonarrFormat(items: IMDBItem[]): Promise<SonarrSeries[]> {
+export async function convertToSonarrFormat(
+  items: IMDBItem[],
+  scope?: ExclusionScope
+): Promise<SonarrSeries[]> {
+  const resolved = await resolveItems(items, scope);
   const results: SonarrSeries[] = [];
 
-  // Process items with some concurrency but not too aggressive
-  const batchSize = 5;
-
-  for (let i = 0; i < items.length; i += batchSize) {
-    const batch = items.slice(i, i + batchSize);
-    const batchResults = await Promise.all(
-      batch.map(async (item) => {
-        try {
-          const resolved = await resolveIMDBToTVDB(item.imdbId);
-          if (resolved) {
-            const series: SonarrSeries = {
-              TvdbId: resolved.tvdbId,
-              Title: resolved.title || item.title,
-              ImdbId: item.imdbId,
-            };
-            if (resolved.tmdbId) {
-              series.TmdbId = resolved.tmdbId;
-            }
-            return series;
-          }
-        } catch (error) {
-          console.error(`[Convert] Error processing ${item.imdbId}:`, error);
-        }
-        return null;
-      })
-    );
-
-    results.push(...batchResults.filter((r): r is SonarrSeries => r !== null));
+  for (const { item, resolution, excluded } of resolved) {
+    if (excluded) {
+      convertLog.info(`Skipping ${item.imdbId}: excluded by ${excluded.id}`);
+      continue;
+    }
+    if (resolution?.outcome !== 'resolved') continue;
 
-    // Small delay between batches to be nice to the API
-    if (i + batchSize < items.length) {
-      await new Promise((resolve) => setTimeout(resolve, 250));
+    const series: SonarrSeries = {
+      TvdbId: resolution.tvdbId,
+      Title: resolution.title || item.title,
+      ImdbId: item.imdbId,
+    };
+    if (resolution.tmdbId) {
+      series.TmdbId = resolution.tmdbId;
+    }
+    if (resolution.provider === 'override') {
+      series.Overridden = true;
     }
+    results.push(series);
   }
 
   return results;
 }
 
+/**
+ * Resolve an IMDB ID to a TMDB movie
+ */
+export async function resolveIMDBToTMDBMovie(
+  imdbId: string
+): Promise<{ tmdbId: number; title: string; year?: number } | null> {
+  const cached = movieCache.get<CachedMovie>(imdbId);
+  if (cached) {
+    cacheLog.debug(`Movie hit for ${imdbId}: TMDB ${cached.tmdbId}`);
+    return { tmdbId: cached.tmdbId, title: cached.title, year: cached.year };
+  }
+
+  tmdbLog.debug(`Resolving movie ${imdbId}...`);
+
+  const found = await findMovieByIMDBId(imdbId);
+  if (!found) {
+    tmdbLog.info(`No movie found for ${imdbId}`);
+    return null;
+  }
+
+  const entry: CachedMovie = { ...found, imdbId, resolvedAt: Date.now() };
+  movieCache.set(imdbId, entry);
+  tmdbLog.info(`Resolved ${imdbId} -> TMDB movie ${found.tmdbId}`);
+
+  return found;
+}
+
+/**
+ * Convert IMDB items to Radarr-compatible format
+ * Radarr can add movies by IMDB ID alone, so unresolved items are kept without a TMDB ID
+ */
+export async function convertToRadarrFormat(items: IMDBItem[]): Promise<RadarrMovie[]> {
+  return mapWithConcurrency(items, getTMDBClientSettings().concurrency, async (item) => {
+    const movie: RadarrMovie = { title: item.title, imdb_id: item.imdbId };
+    try {
+      const resolved = await resolveIMDBToTMDBMovie(item.imdbId);
+      if (resolved) {
+        movie.title = resolved.title || item.title;
+        movie.tmdb_id = resolved.tmdbId;
+        if (resolved.year) movie.year = resolved.year;
+      }
+    } catch (error) {
+      convertLog.error(`Error processing movie ${item.imdbId}:`, error);
+    }
+    if (!movie.year && item.year) movie.year = item.year;
+    return movie;
+  });
+}
+
 /**
  * Check if TMDB API key is configured
  */
@@ -174,17 +707,58 @@ export function isTMDBConfigured(): boolean {
  */
 export function clearCache(): void {
   cache.flushAll();
-  console.log('[Cache] Cleared');
+  movieCache.flushAll();
+  negativeCache.flushAll();
+  reverseCache.flushAll();
+  classificationCache.flushAll();
+  seriesStore.clear();
+  diskHits = 0;
+  cacheLog.info('Cleared');
 }
 
 /**
- * Get cache statistics
+ * Count cached resolution failures per reason
  */
-export function getCacheStats(): { keys: number; hits: number; misses: number } {
+function countFailuresByReason(): Partial<Record<ResolutionFailureReason, number>> {
+  const counts: Partial<Record<ResolutionFailureReason, number>> = {};
+  for (const key of negativeCache.keys()) {
+    const entry = negativeCache.get<CachedFailure>(key);
+    if (entry) {
+      counts[entry.reason] = (counts[entry.reason] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Get cache statistics, including the on-disk store
+ */
+export function getCacheStats(): CacheStats {
   const stats = cache.getStats();
   return {
     keys: cache.keys().length,
     hits: stats.hits,
     misses: stats.misses,
+    disk: {
+      entries: seriesStore.size(),
+      hits: diskHits,
+      path: seriesStore.path,
+    },
+    negative: {
+      keys: negativeCache.keys().length,
+      byReason: countFailuresByReason(),
+    },
+  };
+}
+
+/**
+ * Get movie cache statistics
+ */
+export function getMovieCacheStats(): { keys: number; hits: number; misses: number } {
+  const stats = movieCache.getStats();
+  return {
+    keys: movieCache.keys().length,
+    hits: stats.hits,
+    misses: stats.misses,
   };
 }
@@ -7,6 +7,19 @@ export interface SonarrSeries {
   Title?: string;
   TmdbId?: number;
   ImdbId?: string;
+  /** Set when the TVDB ID comes from an admin mapping override */
+  Overridden?: boolean;
+}
+
+/**
+ * Radarr Custom List format (StevenLu-compatible)
+ * This is the format that Radarr expects from custom import lists
+ */
+export interface RadarrMovie {
+  title: string;
+  imdb_id: string;
+  tmdb_id?: number;
+  year?: number;
 }
 
 /**
@@ -16,9 +29,29 @@ export interface IMDBItem {
   imdbId: string;
   title: string;
   type: 'movie' | 'tvSeries' | 'tvMiniSeries' | 'tvSpecial' | 'video' | 'short' | 'unknown';
+  /** Where the type came from: IMDB's metadata, or TMDB for items IMDB left unknown */
+  typeSource?: 'imdb' | 'tmdb';
   year?: number;
+  /** IMDB user rating (0-10) */
+  rating?: number;
+  /** Number of IMDB user votes behind the rating */
+  votes?: number;
+  genres?: string[];
+  runtimeMinutes?: number;
+  posterUrl?: string;
+  plot?: string;
+  /** Content rating, e.g. "TV-MA" or "PG-13" */
+  certificate?: string;
 }
 
+/**
+ * Optional descriptive fields of an IMDB item
+ */
+export type IMDBItemMetadata = Pick<
+  IMDBItem,
+  'rating' | 'votes' | 'genres' | 'runtimeMinutes' | 'posterUrl' | 'plot' | 'certificate'
+>;
+
 /**
  * TMDB TV Show search result
  */
@@ -42,6 +75,39 @@ export interface TMDBExternalIds {
   tvrage_id?: number | null;
 }
 
+/**
+ * TMDB TV search response
+ */
+export interface TMDBSearchTVResponse {
+  results: Array<{
+    id: number;
+    name: string;
+    original_name?: string;
+    first_air_date?: string;
+  }>;
+}
+
+/**
+ * TheTVDB v4 login response
+ */
+export interface TVDBLoginResponse {
+  status: string;
+  data?: { token: string };
+}
+
+/**
+ * TheTVDB v4 search by remote ID response
+ * Each result holds the record the remote ID belongs to
+ */
+export interface TVDBRemoteIdResponse {
+  status: string;
+  data?: Array<{
+    series?: { id: number; name: string; year?: string };
+    episode?: { id: number; seriesId: number; name?: string };
+    movie?: { id: number; name: string };
+  }>;
+}
+
 /**
  * TMDB Find by IMDB ID response
  */
@@ -67,13 +133,584 @@ export interface CachedSeries {
   title: string;
   imdbId: string;
   resolvedAt: number;
+  /** Resolver that found the series; entries cached before resolvers existed came from TMDB */
+  provider?: ResolverName;
+  /** Set when the show was found by title and year rather than by IMDB ID */
+  match?: 'fuzzy';
+  /** Confidence of a fuzzy match (0-1) */
+  confidence?: number;
+}
+
+/**
+ * Why an IMDB ID could not be resolved to a TVDB ID
+ * - not-found: no resolver has a TV show for the IMDB ID
+ * - no-tvdb-id: TMDB has the show but no TVDB ID for it, and no other resolver found it
+ * - http-error / network-error: transient failures talking to TMDB or TheTVDB
+ */
+export type ResolutionFailureReason = 'not-found' | 'no-tvdb-id' | 'http-error' | 'network-error';
+
+/**
+ * A source of IMDB to TVDB mappings in the resolver chain
+ * - mapping: a local JSON file of fixed mappings
+ * - tmdb: TMDB find by IMDB ID, then its external IDs
+ * - tvdb: TheTVDB v4 search by remote IMDB ID
+ * - tmdb-search: TMDB search by title and year, marked as a fuzzy match
+ */
+export type ResolverName = 'mapping' | 'tmdb' | 'tvdb' | 'tmdb-search';
+
+/**
+ * What a list item is known by, for resolvers that don't look up by IMDB ID
+ */
+export interface SeriesHint {
+  title: string;
+  year?: number;
+}
+
+/**
+ * Answer of a single resolver: the series, or why it couldn't provide one
+ */
+export type ResolverResult =
+  | {
+      outcome: 'resolved';
+      tvdbId: number;
+      tmdbId?: number;
+      title: string;
+      match?: 'fuzzy';
+      confidence?: number;
+    }
+  | { outcome: ResolutionFailureReason; tmdbId?: number; httpStatus?: number };
+
+/**
+ * A resolver in the chain that turns IMDB IDs into TVDB series
+ */
+export interface SeriesResolver {
+  name: ResolverName;
+  /** Whether the resolver has what it needs to run; unconfigured resolvers are skipped */
+  isConfigured(): boolean;
+  resolve(imdbId: string, hint?: SeriesHint): Promise<ResolverResult>;
+}
+
+/**
+ * Outcome of resolving an IMDB ID to a TVDB series
+ */
+export type SeriesResolution =
+  | {
+      outcome: 'resolved';
+      imdbId: string;
+      tvdbId: number;
+      tmdbId?: number;
+      title: string;
+      cached: boolean;
+      /** Resolver that found the series, or override when pinned by an admin */
+      provider: ResolverName | 'override';
+      match?: 'fuzzy';
+      confidence?: number;
+    }
+  | {
+      outcome: ResolutionFailureReason;
+      imdbId: string;
+      tmdbId?: number;
+      httpStatus?: number;
+      cached: boolean;
+    };
+
+/**
+ * Resolution of a single IMDB item, or the error that stopped it from resolving
+ */
+export interface ItemResolution {
+  item: IMDBItem;
+  resolution?: SeriesResolution;
+  /** Exclusion that keeps the item out of the Sonarr output */
+  excluded?: Exclusion;
+  error?: string;
+}
+
+/**
+ * Outcome of a list item in a resolution report
+ * - filtered: not detected as a TV show, so never sent to TMDB
+ * - excluded: kept out of the Sonarr output by an admin exclusion
+ * - error: resolving the item threw unexpectedly
+ */
+export type ReportOutcome = SeriesResolution['outcome'] | 'filtered' | 'excluded' | 'error';
+
+/**
+ * A single list item in a resolution report
+ */
+export interface ReportEntry {
+  imdbId: string;
+  title: string;
+  type: IMDBItem['type'];
+  /** Where the type came from, as on the item */
+  typeSource?: IMDBItem['typeSource'];
+  year?: number;
+  outcome: ReportOutcome;
+  tvdbId?: number;
+  tmdbId?: number;
+  /** Resolver that found the series */
+  provider?: ResolverName | 'override';
+  /** Set when the item was resolved by title and year rather than by IMDB ID */
+  match?: 'fuzzy';
+  confidence?: number;
+  httpStatus?: number;
+  /** Exclusion that kept the item out of the Sonarr output */
+  exclusionId?: string;
+  error?: string;
+}
+
+/**
+ * Explains what happened to every item of a list on its way to Sonarr
+ */
+export interface ResolutionReport {
+  totalItems: number;
+  summary: Partial<Record<ReportOutcome, number>>;
+  items: ReportEntry[];
+}
+
+/**
+ * Cache entry for an IMDB ID that could not be resolved
+ */
+export interface CachedFailure {
+  reason: ResolutionFailureReason;
+  tmdbId?: number;
+  failedAt: number;
+}
+
+/**
+ * Cache entry for an item IMDB gave no type, classified by TMDB /find
+ */
+export interface CachedClassification {
+  isTV: boolean;
+  tmdbId?: number;
+  classifiedAt: number;
+}
+
+/**
+ * Cache entry for resolved movies
+ */
+export interface CachedMovie {
+  tmdbId: number;
+  title: string;
+  imdbId: string;
+  year?: number;
+  resolvedAt: number;
+}
+
+/**
+ * Resolution cache statistics, as reported by /health
+ */
+export interface CacheStats {
+  keys: number;
+  hits: number;
+  misses: number;
+  disk: {
+    entries: number;
+    hits: number;
+    path: string;
+  };
+  negative: {
+    keys: number;
+    byReason: Partial<Record<ResolutionFailureReason, number>>;
+  };
+}
+
+/**
+ * Filters applied to IMDB items before conversion
+ */
+export interface ItemFilters {
+  includeGenres: string[];
+  excludeGenres: string[];
+  minRating?: number;
+  maxRating?: number;
+  minVotes?: number;
+  yearFrom?: number;
+  yearTo?: number;
+  types?: Array<IMDBItem['type']>;
+}
+
+/**
+ * How several IMDB lists are combined into one
+ */
+export type SetOperation = 'union' | 'intersection' | 'difference';
+
+/**
+ * Items of several combined lists, with the source lists each item is on
+ */
+export interface CombinedItems {
+  items: IMDBItem[];
+  /** Source list IDs by IMDB ID */
+  sources: Map<string, string[]>;
+}
+
+/**
+ * The lists whose exclusions apply to items being resolved: one list ID for all of
+ * them, or the source lists of each item of a combined list
+ */
+export type ExclusionScope = string | Map<string, string[]>;
+
+/**
+ * A named list profile, served at /profiles/:name
+ */
+export interface ListProfile {
+  name: string;
+  /** IMDB list IDs (ur/ls) or full IMDB list URLs */
+  sources: string[];
+  /** How sources are combined (default: union) */
+  operation: SetOperation;
+  /** Maximum number of items fetched per source and returned overall */
+  maxItems?: number;
+  /** IMDB IDs that are never returned */
+  exclude: string[];
+  /** Filters applied before conversion; types default to TV series and mini-series */
+  filters: ItemFilters;
+  /** full: TvdbId, Title, TmdbId, ImdbId; minimal: TvdbId only */
+  format: 'full' | 'minimal';
+  /** How series are added when the profile is pushed to Sonarr with POST /sync/:profile */
+  sonarr?: SonarrAddOptions;
+}
+
+/**
+ * Which episodes Sonarr monitors when a series is added
+ */
+export type SonarrMonitorMode =
+  | 'all'
+  | 'future'
+  | 'missing'
+  | 'existing'
+  | 'pilot'
+  | 'firstSeason'
+  | 'latestSeason'
+  | 'none';
+
+/**
+ * Per-profile options used when adding series to Sonarr
+ */
+export interface SonarrAddOptions {
+  qualityProfileId: number;
+  rootFolderPath: string;
+  /** Only needed by Sonarr v3; ignored by v4 */
+  languageProfileId?: number;
+  monitor: SonarrMonitorMode;
+  seasonFolder: boolean;
+  seriesType: 'standard' | 'daily' | 'anime';
+  /** Tag labels, created in Sonarr if they don't exist yet */
+  tags: string[];
+  searchForMissingEpisodes: boolean;
+}
+
+/**
+ * A series as returned by Sonarr's /api/v3/series and /api/v3/series/lookup
+ * Only the fields imdbarr uses are typed; the rest is passed through untouched
+ */
+export interface SonarrLibrarySeries {
+  id?: number;
+  title: string;
+  tvdbId: number;
+  imdbId?: string;
+  tmdbId?: number;
+  year?: number;
+  titleSlug?: string;
+  monitored?: boolean;
+  tags?: number[];
+  seasons?: Array<{ seasonNumber: number; monitored: boolean }>;
+  statistics?: {
+    episodeFileCount?: number;
+    sizeOnDisk?: number;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * A series handled by a sync run
+ */
+export interface SyncEntry {
+  tvdbId: number;
+  title?: string;
+  imdbId?: string;
+  sonarrId?: number;
+  error?: string;
+}
+
+/**
+ * Result of pushing a profile into Sonarr
+ */
+export interface SyncResult {
+  profile: string;
+  startedAt: string;
+  finishedAt: string;
+  added: SyncEntry[];
+  existing: SyncEntry[];
+  failed: SyncEntry[];
+}
+
+/**
+ * What a sync would change, without changing anything
+ */
+export interface SyncPlan {
+  profile: string;
+  generatedAt: string;
+  toAdd: SyncEntry[];
+  present: SyncEntry[];
+  /** Series a previous sync added from this profile that are no longer on it */
+  removed: SyncEntry[];
+}
+
+/**
+ * Record of a series added to Sonarr by a profile
+ */
+export interface SyncRecord {
+  profile: string;
+  tvdbId: number;
+  imdbId?: string;
+  title?: string;
+  sonarrId?: number;
+  /** Monitor mode the series was added with */
+  monitor?: SonarrMonitorMode;
+  addedAt: number;
+}
+
+/**
+ * What cleanup does to a series that left its IMDB list
+ */
+export type CleanupAction = 'unmonitor' | 'delete';
+
+/**
+ * The IMDB IDs seen on a list the last time cleanup ran
+ */
+export interface ListState {
+  listId: string;
+  imdbIds: string[];
+  fetchedAt: number;
+}
+
+/**
+ * Audit record of one cleanup decision
+ */
+export interface CleanupAuditRecord {
+  at: string;
+  listId: string;
+  imdbId: string;
+  tvdbId?: number;
+  sonarrId?: number;
+  title?: string;
+  action: 'unmonitored' | 'deleted' | 'skipped' | 'failed';
+  reason?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Result of a cleanup run for one list
+ */
+export interface CleanupResult {
+  listId: string;
+  /** False on the first run, which only records the list as a baseline */
+  hadPrevious: boolean;
+  previousCount: number;
+  currentCount: number;
+  removed: string[];
+  actions: CleanupAuditRecord[];
+}
+
+/**
+ * A Sonarr series that is not on an IMDB list
+ */
+export interface MissingSeries {
+  tvdbId: number;
+  title: string;
+  year?: number;
+  imdbId: string;
+  /** Where the IMDB ID came from: TMDB external IDs, or Sonarr when TMDB had none */
+  imdbSource: 'tmdb' | 'sonarr';
+}
+
+/**
+ * Sonarr series missing from an IMDB list, for importing them into the list
+ */
+export interface MissingFromListReport {
+  listId: string;
+  generatedAt: string;
+  librarySize: number;
+  onList: number;
+  missing: MissingSeries[];
+  /** Series with no IMDB ID from TMDB or Sonarr, which can't be imported */
+  unresolved: Array<{ tvdbId: number; title: string }>;
+}
+
+/**
+ * The parts of a list item kept in a snapshot
+ */
+export type SnapshotItem = Pick<IMDBItem, 'imdbId' | 'title' | 'type' | 'year'>;
+
+/**
+ * The contents of an IMDB list at one point in time
+ */
+export interface ListSnapshot {
+  listId: string;
+  takenAt: number;
+  items: SnapshotItem[];
+}
+
+/**
+ * Items added and removed between two consecutive snapshots
+ */
+export interface SnapshotDiff {
+  added: SnapshotItem[];
+  removed: SnapshotItem[];
+}
+
+/**
+ * An item that was added to or removed from a list
+ */
+export interface ListChange extends SnapshotItem {
+  /** When the snapshot that first showed the change was taken */
+  changedAt: string;
+}
+
+/**
+ * Items added to and removed from a list between two snapshots
+ */
+export interface ListChanges {
+  listId: string;
+  since: string | null;
+  /** Snapshot the changes are measured from, null when there are no snapshots yet */
+  from: string | null;
+  to: string | null;
+  snapshots: number;
+  added: ListChange[];
+  removed: ListChange[];
+}
+
+/**
+ * An entry in a feed of recent list additions
+ */
+export interface FeedEntry {
+  /** Stable across polls, so feed readers don't show an entry twice */
+  guid: string;
+  imdbId: string;
+  title: string;
+  year?: number;
+  type: IMDBItem['type'];
+  url: string;
+  tvdbId?: number;
+  /** When the item was first seen on the list */
+  addedAt: number;
+}
+
+/**
+ * Where list change notifications are sent
+ */
+export type NotificationChannel = 'discord' | 'slack' | 'webhook';
+
+/**
+ * A TV show in a list change notification
+ */
+export interface NotificationItem {
+  imdbId: string;
+  title: string;
+  year?: number;
+  type: IMDBItem['type'];
+  imdbUrl: string;
+  tvdbId?: number;
+}
+
+/**
+ * Body of the generic JSON webhook
+ */
+export interface ListChangeNotification {
+  event: 'list.changed';
+  listId: string;
+  detectedAt: string;
+  added: NotificationItem[];
+  removed: NotificationItem[];
+}
+
+/**
+ * Outcome of delivering a notification to one target
+ */
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  /** Target host, without the path since webhook URLs carry secrets */
+  target: string;
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * A notification that could not be delivered after every retry
+ */
+export interface NotificationFailure extends NotificationDelivery {
+  at: string;
+  listId: string;
+}
+
+/**
+ * Finished Sonarr output of a /tv request, kept to answer the next request at once
+ */
+export interface TvOutput {
+  listId: string;
+  series: SonarrSeries[];
+  generatedAt: number;
+}
+
+/**
+ * Stored Sonarr output and how it relates to the request that asked for it
+ * - fresh: within TV_MAX_AGE_SECONDS
+ * - stale: older, so a refresh has been started in the background
+ * - miss: nothing was stored, so it was built for this request
+ */
+export interface TvOutputResult extends TvOutput {
+  status: 'fresh' | 'stale' | 'miss';
+}
+
+/**
+ * IMDB to TVDB mapping pinned by an admin, used ahead of every resolver
+ */
+export interface MappingOverride {
+  imdbId: string;
+  tvdbId: number;
+  title?: string;
+  note?: string;
+  createdAt: string;
+}
+
+/**
+ * Show kept out of the Sonarr output by an admin
+ * Matches by IMDB ID or TVDB ID, in every list or only in `listId`
+ */
+export interface Exclusion {
+  id: string;
+  imdbId?: string;
+  tvdbId?: number;
+  listId?: string;
+  note?: string;
+  createdAt: string;
+}
+
+/**
+ * What an API key may do
+ * - admin: every endpoint, including /admin and requests that write to Sonarr
+ * - read: fetching lists and reports
+ */
+export type ApiKeyScope = 'admin' | 'read';
+
+/**
+ * An API key accepted by the server
+ */
+export interface ApiKey {
+  key: string;
+  scope: ApiKeyScope;
+  /** Shown in logs and error messages instead of the key itself */
+  name: string;
 }
 
 /**
  * API Configuration
+ * Server settings come from the environment, profiles from the CONFIG_FILE
  */
 export interface APIConfig {
   port: number;
   tmdbApiKey?: string;
   cacheTtlSeconds: number;
+  profiles: Record<string, ListProfile>;
 }
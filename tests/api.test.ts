@@ -1,11 +1,26 @@
 import { describe, expect, test, spyOn, beforeEach, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import request from 'supertest';
+import * as config from '../src/config';
 import * as imdb from '../src/imdb';
 import * as tvdb from '../src/tvdb';
+import * as report from '../src/report';
+import * as reverse from '../src/reverse';
+import * as sonarr from '../src/sonarr';
+import { clearTvOutputs } from '../src/prewarm';
+import { clearOverrides } from '../src/overrides';
+import { profileForList } from '../src/profiles';
+import { getRequestId } from '../src/logger';
 import app from '../src/index';
 
+process.env.DATA_DIR ??= fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-api-'));
+
 describe('API Integration', () => {
     beforeEach(() => {
+        clearTvOutputs();
+
         // Mock IMDB functions
         spyOn(imdb, 'fetchIMDBList').mockImplementation(async (id: string) => {
             if (id === 'error') throw new Error('Mock error');
@@ -21,12 +36,27 @@ describe('API Integration', () => {
 
         // Mock TVDB functions
         spyOn(tvdb, 'isTMDBConfigured').mockReturnValue(true);
+        spyOn(tvdb, 'isResolverConfigured').mockReturnValue(true);
         spyOn(tvdb, 'convertToSonarrFormat').mockImplementation(async (items: any[]) => items.map((i: any) => ({
             TvdbId: 12345,
             Title: i.title,
             ImdbId: i.imdbId
         })));
-        spyOn(tvdb, 'getCacheStats').mockReturnValue({ keys: 0, hits: 0, misses: 0 });
+        spyOn(imdb, 'filterMovies').mockImplementation((items: any[]) =>
+            items.filter((i: any) => i.type === 'movie')
+        );
+        spyOn(tvdb, 'convertToRadarrFormat').mockImplementation(async (items: any[]) => items.map((i: any) => ({
+            title: i.title,
+            imdb_id: i.imdbId,
+            tmdb_id: 550
+        })));
+        spyOn(tvdb, 'getCacheStats').mockReturnValue({
+            keys: 0,
+            hits: 0,
+            misses: 0,
+            disk: { entries: 0, hits: 0, path: '/tmp/series.jsonl' },
+            negative: { keys: 0, byReason: {} }
+        });
     });
 
     afterEach(() => {
@@ -66,5 +96,333 @@ describe('API Integration', () => {
             expect(res.body).toHaveLength(1);
             expect(res.body[0].TvdbId).toBe(12345);
         });
+
+        test('works without TMDB when another resolver is configured, and 503s with none', async () => {
+            spyOn(tvdb, 'isTMDBConfigured').mockReturnValue(false);
+            expect((await request(app).get('/watchlist/ur12345678/tv')).status).toBe(200);
+
+            spyOn(tvdb, 'isResolverConfigured').mockReturnValue(false);
+            const res = await request(app).get('/watchlist/ur12345678/tv');
+            expect(res.status).toBe(503);
+            expect(res.body.error).toBe('No resolver configured');
+        });
+
+        test('rejects IDs that are not IMDB list IDs', async () => {
+            const res = await request(app).get('/watchlist/profile:household/tv');
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe('Invalid list ID');
+            expect((await request(app).get('/list/combined/tv')).status).toBe(400);
+            expect(imdb.fetchIMDBList).not.toHaveBeenCalled();
+        });
+
+        test('answers repeat requests from the stored output with its age', async () => {
+            const first = await request(app).get('/watchlist/ur12345678/tv?limit=5');
+            expect(first.headers['x-cache-status']).toBe('miss');
+            expect(first.headers['age']).toBe('0');
+            expect(first.headers['last-modified']).toBeDefined();
+
+            const second = await request(app).get('/watchlist/ur12345678/tv?limit=5');
+            expect(second.headers['x-cache-status']).toBe('fresh');
+            expect(second.body).toEqual(first.body);
+            expect(imdb.fetchIMDBList).toHaveBeenCalledTimes(1);
+        });
+
+        test('rejects invalid filters with 400', async () => {
+            const res = await request(app).get('/watchlist/ur12345678/tv?minRating=abc');
+            expect(res.status).toBe(400);
+            expect(res.body.message).toBe('minRating must be a number, got "abc"');
+        });
+    });
+
+    describe('?includeUnknown', () => {
+        beforeEach(() => {
+            spyOn(imdb, 'fetchIMDBList').mockImplementation(async () => [
+                { imdbId: 'tt1', title: 'Show 1', type: 'tvSeries' },
+                { imdbId: 'tt3', title: 'Untyped show', type: 'unknown' }
+            ] as any);
+            spyOn(tvdb, 'classifyUnknownItems').mockImplementation(async (items: any[]) =>
+                items.map((i: any) => i.type === 'unknown'
+                    ? { ...i, type: 'tvSeries', typeSource: 'tmdb' }
+                    : { ...i, typeSource: 'imdb' })
+            );
+        });
+
+        test('drops unknown items from /tv by default', async () => {
+            const res = await request(app).get('/list/ls123/tv');
+            expect(res.body.map((s: any) => s.ImdbId)).toEqual(['tt1']);
+            expect(tvdb.classifyUnknownItems).not.toHaveBeenCalled();
+        });
+
+        test('keeps unknown items TMDB classifies as TV', async () => {
+            const res = await request(app).get('/list/ls123/tv?includeUnknown=true');
+            expect(res.body.map((s: any) => s.ImdbId)).toEqual(['tt1', 'tt3']);
+        });
+
+        test('shows the classification source in the metadata endpoints', async () => {
+            spyOn(tvdb, 'applyCachedClassifications').mockImplementation((items: any[]) =>
+                items.map((i: any) => i.type === 'unknown'
+                    ? { ...i, type: 'tvSeries', typeSource: 'tmdb' }
+                    : { ...i, typeSource: 'imdb' })
+            );
+            spyOn(config, 'getProfile').mockReturnValue(profileForList('ls123'));
+            for (const url of ['/list/ls123', '/combined?lists=ls123,ls456', '/profiles/household']) {
+                const res = await request(app).get(url);
+                expect(res.body.items.map((i: any) => [i.type, i.typeSource])).toEqual([
+                    ['tvSeries', 'imdb'],
+                    ['tvSeries', 'tmdb']
+                ]);
+            }
+        });
+    });
+
+    describe('GET /list/:listId/tv/report', () => {
+        test('returns the resolution report for the list', async () => {
+            spyOn(report, 'buildResolutionReport').mockImplementation(async (items: any[]) => ({
+                totalItems: items.length,
+                summary: { resolved: 1, filtered: 1 },
+                items: []
+            }));
+
+            const res = await request(app).get('/list/ls123456789/tv/report');
+            expect(res.status).toBe(200);
+            expect(res.body.listId).toBe('ls123456789');
+            expect(res.body.summary).toEqual({ resolved: 1, filtered: 1 });
+        });
+
+        test('classifies untyped items like /tv with includeUnknown=true', async () => {
+            const classifySpy = spyOn(tvdb, 'classifyUnknownItems').mockImplementation(async (items: any[]) =>
+                items.map((item: any) => ({ ...item, typeSource: 'imdb' }))
+            );
+            const reportSpy = spyOn(report, 'buildResolutionReport').mockImplementation(async (items: any[]) => ({
+                totalItems: items.length,
+                summary: {},
+                items: []
+            }));
+
+            await request(app).get('/list/ls123456789/tv/report?includeUnknown=true');
+            expect(classifySpy).toHaveBeenCalledTimes(1);
+            expect(reportSpy.mock.calls[0][0].every((item) => item.typeSource === 'imdb')).toBe(true);
+        });
+    });
+
+    describe('GET /combined/tv', () => {
+        test('returns one sonarr array for several lists', async () => {
+            const res = await request(app).get('/combined/tv?lists=ur12345678,ls123456789&op=intersection');
+            expect(res.status).toBe(200);
+            expect(res.body).toHaveLength(1);
+            expect(res.body[0].ImdbId).toBe('tt1');
+        });
+
+        test('stores the output per lists and operation', async () => {
+            const url = '/combined/tv?lists=ur12345678,ls123456789&op=intersection';
+            expect((await request(app).get(url)).headers['x-cache-status']).toBe('miss');
+            expect((await request(app).get(`${url}&_=1712345678`)).headers['x-cache-status']).toBe('fresh');
+            const union = await request(app).get('/combined/tv?lists=ur12345678,ls123456789');
+            expect(union.headers['x-cache-status']).toBe('miss');
+        });
+
+        test('rejects an unknown operation', async () => {
+            const res = await request(app).get('/combined/tv?lists=ur12345678,ls123456789&op=xor');
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('GET /list/:listId/feed.xml', () => {
+        test('returns an RSS feed, or Atom on request', async () => {
+            spyOn(tvdb, 'resolveItems').mockImplementation(async () => []);
+
+            const rss = await request(app).get('/list/ls123456789/feed.xml');
+            expect(rss.status).toBe(200);
+            expect(rss.headers['content-type']).toContain('application/rss+xml');
+            expect(rss.text).toContain('<guid isPermaLink="false">urn:imdbarr:ls123456789:tt1</guid>');
+
+            const atom = await request(app).get('/list/ls123456789/feed.xml?format=atom');
+            expect(atom.headers['content-type']).toContain('application/atom+xml');
+            expect(atom.text).toContain('<id>urn:imdbarr:ls123456789:tt2</id>');
+        });
+
+        test('leaves the API key out of the self link', async () => {
+            spyOn(tvdb, 'resolveItems').mockImplementation(async () => []);
+
+            const atom = await request(app).get('/list/ls123456789/feed.xml?apikey=secret-key&format=atom');
+            expect(atom.text).not.toContain('secret-key');
+            expect(atom.text).toContain('/list/ls123456789/feed.xml?format=atom');
+        });
+    });
+
+    describe('GET /list/:listId/movies', () => {
+        test('returns radarr format', async () => {
+            const res = await request(app).get('/list/ls123456789/movies');
+            expect(res.status).toBe(200);
+            expect(res.body).toHaveLength(1);
+            expect(res.body[0]).toEqual({ title: 'Movie 1', imdb_id: 'tt2', tmdb_id: 550 });
+        });
+    });
+
+    describe('GET /sync/:listId/missing.csv', () => {
+        test('returns series missing from the list as an IMDB import CSV', async () => {
+            spyOn(sonarr, 'isSonarrConfigured').mockReturnValue(true);
+            spyOn(reverse, 'findMissingFromList').mockImplementation(async (listId: string) => ({
+                listId,
+                generatedAt: '2024-01-01T00:00:00.000Z',
+                librarySize: 2,
+                onList: 1,
+                missing: [{ tvdbId: 20, title: 'Missing Show', year: 2020, imdbId: 'tt20', imdbSource: 'tmdb' }],
+                unresolved: []
+            }));
+
+            const res = await request(app).get('/sync/ls123456789/missing.csv');
+            expect(res.status).toBe(200);
+            expect(res.headers['content-type']).toContain('text/csv');
+            expect(res.text).toBe('Const,Title,Year,Description\r\ntt20,Missing Show,2020,In Sonarr (TVDB 20)\r\n');
+
+            const json = await request(app).get('/sync/ls123456789/missing');
+            expect(json.body.missing).toHaveLength(1);
+        });
+
+        test('rejects a URL or unknown ID', async () => {
+            spyOn(sonarr, 'isSonarrConfigured').mockReturnValue(true);
+            const res = await request(app).get('/sync/not-a-list/missing.csv');
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('admin overrides and exclusions', () => {
+        beforeEach(() => {
+            process.env.ADMIN_API_KEYS = 'admin-key';
+        });
+
+        afterEach(() => {
+            delete process.env.ADMIN_API_KEYS;
+            clearOverrides();
+        });
+
+        test('pins, lists and removes a mapping override', async () => {
+            const put = await request(app)
+                .put('/admin/overrides/tt0903747').set('X-Api-Key', 'admin-key')
+                .send({ tvdbId: 81189, title: 'Breaking Bad' });
+            expect(put.status).toBe(200);
+            expect(put.body).toMatchObject({ imdbId: 'tt0903747', tvdbId: 81189, title: 'Breaking Bad' });
+
+            const list = await request(app).get('/admin/overrides').set('X-Api-Key', 'admin-key');
+            expect(list.body.totalOverrides).toBe(1);
+
+            expect((await request(app).delete('/admin/overrides/tt0903747').set('X-Api-Key', 'admin-key')).status).toBe(200);
+            expect((await request(app).delete('/admin/overrides/tt0903747').set('X-Api-Key', 'admin-key')).status).toBe(404);
+        });
+
+        test('rejects an invalid override', async () => {
+            const res = await request(app).put('/admin/overrides/tt0903747').set('X-Api-Key', 'admin-key').send({ tvdbId: 'abc' });
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe('Invalid override');
+        });
+
+        test('adds, lists and removes exclusions', async () => {
+            const post = await request(app)
+                .post('/admin/exclusions').set('X-Api-Key', 'admin-key')
+                .send({ tvdbId: 73244, listId: 'ls036390872' });
+            expect(post.status).toBe(201);
+            expect(post.body.id).toBe('ls036390872:tvdb-73244');
+
+            expect((await request(app).get('/admin/exclusions?listId=ls036390872').set('X-Api-Key', 'admin-key')).body.totalExclusions).toBe(1);
+            expect((await request(app).get('/admin/exclusions?listId=ls1').set('X-Api-Key', 'admin-key')).body.totalExclusions).toBe(0);
+
+            expect((await request(app).delete('/admin/exclusions/ls036390872:tvdb-73244').set('X-Api-Key', 'admin-key')).status).toBe(200);
+            expect((await request(app).delete('/admin/exclusions/ls036390872:tvdb-73244').set('X-Api-Key', 'admin-key')).status).toBe(404);
+        });
+
+        test('rejects an exclusion without a target', async () => {
+            const res = await request(app).post('/admin/exclusions').set('X-Api-Key', 'admin-key').send({ listId: 'ls036390872' });
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe('Invalid exclusion');
+        });
+    });
+
+    describe('API keys', () => {
+        afterEach(() => {
+            delete process.env.API_KEYS;
+            delete process.env.ADMIN_API_KEYS;
+        });
+
+        test('accepts keys in a header or the apikey query parameter', async () => {
+            process.env.API_KEYS = 'read-key';
+
+            expect((await request(app).get('/list/ls123/tv')).status).toBe(401);
+            expect((await request(app).get('/list/ls123/tv').set('X-Api-Key', 'read-key')).status).toBe(200);
+            expect((await request(app).get('/list/ls123/tv').set('Authorization', 'Bearer read-key')).status).toBe(200);
+            expect((await request(app).get('/list/ls123/tv?apikey=read-key')).status).toBe(200);
+            expect((await request(app).get('/health')).status).toBe(200);
+        });
+
+        test('does not let the apikey parameter change the stored output', async () => {
+            process.env.API_KEYS = 'read-key,other-key';
+
+            await request(app).get('/list/ls123/tv?apikey=read-key');
+            const res = await request(app).get('/list/ls123/tv?apikey=other-key');
+            expect(res.headers['x-cache-status']).toBe('fresh');
+        });
+
+        test('refuses admin endpoints and POST /sync while no admin key is configured', async () => {
+            const res = await request(app).post('/admin/cache/clear');
+            expect(res.status).toBe(403);
+            expect(res.body.error).toBe('Admin API key not configured');
+            expect(res.body.message).toContain('ADMIN_API_KEYS');
+
+            process.env.API_KEYS = 'read-key';
+            expect((await request(app).post('/sync/ls123/cleanup').set('X-Api-Key', 'read-key')).status).toBe(403);
+            expect((await request(app).get('/list/ls123/tv').set('X-Api-Key', 'read-key')).status).toBe(200);
+        });
+
+        test('returns 401 without a key and 403 with a read-only key on admin endpoints', async () => {
+            process.env.ADMIN_API_KEYS = 'admin-key';
+            process.env.API_KEYS = 'read-key';
+
+            const missing = await request(app).post('/admin/cache/clear');
+            expect(missing.status).toBe(401);
+            expect(missing.body.error).toBe('API key required');
+
+            const readOnly = await request(app).post('/admin/cache/clear?apikey=read-key');
+            expect(readOnly.status).toBe(403);
+            expect(readOnly.body.error).toBe('Insufficient scope');
+
+            expect((await request(app).post('/admin/cache/clear').set('X-Api-Key', 'admin-key')).status).toBe(200);
+        });
+    });
+
+    describe('GET /metrics', () => {
+        test('returns request, list and resolution metrics in the Prometheus text format', async () => {
+            await request(app).get('/list/ls123/tv');
+
+            const res = await request(app).get('/metrics');
+            expect(res.status).toBe(200);
+            expect(res.headers['content-type']).toMatch(/^text\/plain;.*version=0.0.4/);
+            expect(res.text).toContain('imdbarr_http_requests_total{method="GET",route="/list/:listId/tv",status="200"}');
+            expect(res.text).toContain('# TYPE imdbarr_http_request_duration_seconds histogram');
+            expect(res.text).toContain('imdbarr_list_series{list="ls123"} 1');
+            expect(res.text).toContain('# TYPE imdbarr_tmdb_requests_total counter');
+            expect(res.text).toContain('imdbarr_cache_keys{cache="series"}');
+        });
+    });
+
+    describe('request IDs', () => {
+        test('generates an ID, returns it in X-Request-Id and keeps it while the list is fetched', async () => {
+            let seen: string | undefined;
+            spyOn(imdb, 'fetchIMDBList').mockImplementation(async () => {
+                seen = getRequestId();
+                return [{ imdbId: 'tt1', title: 'Show 1', type: 'tvSeries' }] as any;
+            });
+
+            const res = await request(app).get('/list/ls123/tv');
+            expect(res.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+            expect(seen).toBe(res.headers['x-request-id']);
+        });
+
+        test('reuses a usable X-Request-Id from the client', async () => {
+            const res = await request(app).get('/health').set('X-Request-Id', 'proxy-abc.123');
+            expect(res.headers['x-request-id']).toBe('proxy-abc.123');
+
+            const unsafe = await request(app).get('/health').set('X-Request-Id', 'bad id with spaces');
+            expect(unsafe.headers['x-request-id']).not.toBe('bad id with spaces');
+        });
     });
 });
@@ -0,0 +1,96 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { authorize, getAuthStatus, getRequiredScope, validateApiKeysFile } from '../src/auth';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-auth-'));
+
+describe('API key authentication', () => {
+    afterEach(() => {
+        delete process.env.API_KEYS;
+        delete process.env.ADMIN_API_KEYS;
+        delete process.env.API_KEYS_FILE;
+    });
+
+    test('maps endpoints to the scope they need', () => {
+        expect(getRequiredScope('GET', '/health')).toBeNull();
+        expect(getRequiredScope('GET', '/')).toBeNull();
+        expect(getRequiredScope('POST', '/admin/cache/clear')).toBe('admin');
+        expect(getRequiredScope('POST', '/Admin/cache/clear')).toBe('admin');
+        expect(getRequiredScope('POST', '/sync/dramas')).toBe('admin');
+        expect(getRequiredScope('GET', '/sync/dramas/plan')).toBe('read');
+        expect(getRequiredScope('GET', '/list/ls1/tv')).toBe('read');
+    });
+
+    test('opens list endpoints but refuses admin endpoints when no keys are configured', () => {
+        expect(authorize('GET', '/list/ls1/tv', undefined)).toEqual({ ok: true });
+        expect(authorize('POST', '/admin/cache/clear', undefined)).toMatchObject({
+            ok: false,
+            status: 403,
+            error: 'Admin API key not configured',
+        });
+        expect(authorize('POST', '/sync/dramas', 'anything')).toMatchObject({ ok: false, status: 403 });
+    });
+
+    test('refuses admin endpoints when only read keys are configured', () => {
+        process.env.API_KEYS = 'read-key';
+        expect(authorize('POST', '/admin/cache/clear', 'read-key')).toMatchObject({
+            ok: false,
+            status: 403,
+            error: 'Admin API key not configured',
+        });
+    });
+
+    test('protects only admin endpoints when only admin keys are configured', () => {
+        process.env.ADMIN_API_KEYS = 'admin-secret';
+
+        expect(authorize('GET', '/list/ls1/tv', undefined).ok).toBe(true);
+        expect(authorize('POST', '/admin/cache/clear', undefined)).toMatchObject({ ok: false, status: 401 });
+        expect(authorize('POST', '/admin/cache/clear', 'wrong')).toMatchObject({ ok: false, status: 401, error: 'Invalid API key' });
+        expect(authorize('POST', '/admin/cache/clear', 'admin-secret').ok).toBe(true);
+    });
+
+    test('rejects read keys on admin endpoints with 403', () => {
+        process.env.ADMIN_API_KEYS = 'admin-secret';
+        process.env.API_KEYS = 'old-read, new-read';
+
+        expect(authorize('GET', '/list/ls1/tv', undefined)).toMatchObject({ ok: false, status: 401 });
+        expect(authorize('GET', '/list/ls1/tv', 'old-read').ok).toBe(true);
+        expect(authorize('GET', '/list/ls1/tv', 'new-read').ok).toBe(true);
+        expect(authorize('GET', '/list/ls1/tv', 'admin-secret').ok).toBe(true);
+        expect(authorize('POST', '/admin/cache/clear', 'new-read')).toMatchObject({
+            ok: false,
+            status: 403,
+            error: 'Insufficient scope',
+        });
+        expect(getAuthStatus()).toEqual({ adminKeys: 1, readKeys: 2, listsProtected: true });
+    });
+
+    test('validates the keys file', () => {
+        expect(validateApiKeysFile({ keys: [{ key: 'k', scope: 'read' }] })).toEqual({
+            keys: [{ key: 'k', scope: 'read', name: 'keys[0]' }],
+        });
+        const result = validateApiKeysFile({ keys: [{ key: '', scope: 'read' }, { key: 'k', scope: 'write' }, { key: 'k', scope: 'admin', name: 1 }, null] });
+        expect('errors' in result && result.errors).toHaveLength(4);
+        expect('errors' in result && result.errors[3]).toBe('keys[3]: must be an object');
+        expect(validateApiKeysFile([])).toHaveProperty('errors');
+    });
+
+    test('picks up keys rotated in the keys file and keeps them through a bad edit', () => {
+        const file = path.join(dir, 'keys.json');
+        fs.writeFileSync(file, JSON.stringify({ keys: [{ name: 'sonarr', key: 'first', scope: 'read' }] }));
+        process.env.API_KEYS_FILE = file;
+
+        expect(authorize('GET', '/list/ls1/tv', 'first').ok).toBe(true);
+
+        fs.writeFileSync(file, JSON.stringify({ keys: [{ name: 'sonarr', key: 'second', scope: 'read' }] }));
+        fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+        expect(authorize('GET', '/list/ls1/tv', 'first').ok).toBe(false);
+        expect(authorize('GET', '/list/ls1/tv', 'second').ok).toBe(true);
+
+        fs.writeFileSync(file, '{ not json');
+        fs.utimesSync(file, new Date(), new Date(Date.now() + 10000));
+        expect(authorize('GET', '/list/ls1/tv', 'second').ok).toBe(true);
+    });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, test, spyOn, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import * as imdb from '../src/imdb';
+import * as tvdb from '../src/tvdb';
+import { cleanupList, getCleanupAudit, getCleanupSettings } from '../src/cleanup';
+import type { IMDBItem, SeriesResolution } from '../src/types';
+import { startMockSonarr, type MockSonarr } from './mock-sonarr';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-cleanup-'));
+
+const firstSeasonOnly = [
+    { seasonNumber: 0, monitored: false },
+    { seasonNumber: 1, monitored: true },
+    { seasonNumber: 2, monitored: false }
+];
+
+const resolutions: Record<string, SeriesResolution> = {
+    tt10: { outcome: 'resolved', imdbId: 'tt10', tvdbId: 10, title: 'Light Show', cached: true, provider: 'tmdb' },
+    tt20: { outcome: 'resolved', imdbId: 'tt20', tvdbId: 20, title: 'Fully Monitored', cached: true, provider: 'tmdb' },
+    tt30: { outcome: 'resolved', imdbId: 'tt30', tvdbId: 30, title: 'Downloaded', cached: true, provider: 'tmdb' },
+    tt40: { outcome: 'not-found', imdbId: 'tt40', cached: false },
+    tt50: { outcome: 'network-error', imdbId: 'tt50', cached: false },
+    tt60: { outcome: 'resolved', imdbId: 'tt60', tvdbId: 60, title: 'New Show', cached: true, provider: 'tmdb' }
+};
+
+function listOf(ids: string[]): IMDBItem[] {
+    return ids.map((imdbId) => ({ imdbId, title: imdbId, type: 'tvSeries' as const }));
+}
+
+describe('Watchlist-removal cleanup', () => {
+    let sonarr: MockSonarr;
+    let listItems: IMDBItem[];
+
+    beforeAll(async () => {
+        sonarr = await startMockSonarr();
+        process.env.SONARR_URL = sonarr.url;
+        process.env.SONARR_API_KEY = sonarr.apiKey;
+    });
+
+    afterAll(async () => {
+        delete process.env.SONARR_URL;
+        delete process.env.SONARR_API_KEY;
+        await sonarr.close();
+    });
+
+    beforeEach(() => {
+        sonarr.series = [
+            { id: 1, title: 'Light Show', tvdbId: 10, monitored: true, seasons: firstSeasonOnly, statistics: { episodeFileCount: 0 } },
+            { id: 2, title: 'Fully Monitored', tvdbId: 20, monitored: true, seasons: [{ seasonNumber: 1, monitored: true }, { seasonNumber: 2, monitored: true }], statistics: { episodeFileCount: 0 } },
+            { id: 3, title: 'Downloaded', tvdbId: 30, monitored: true, seasons: firstSeasonOnly, statistics: { episodeFileCount: 3 } }
+        ];
+        sonarr.requests = [];
+        // The fixtures have no sync records, so their monitor mode comes from their seasons
+        process.env.CLEANUP_INFER_MONITOR_MODE = 'true';
+        listItems = listOf(['tt10', 'tt20', 'tt30', 'tt40', 'tt50', 'tt99']);
+
+        spyOn(imdb, 'fetchIMDBList').mockImplementation((async () => listItems) as any);
+        spyOn(tvdb, 'resolveSeries').mockImplementation(async (imdbId: string) => resolutions[imdbId]);
+        spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        delete process.env.CLEANUP_ACTION;
+        delete process.env.CLEANUP_MONITOR_MODES;
+        delete process.env.CLEANUP_INFER_MONITOR_MODE;
+        mock.restore();
+    });
+
+    test('only records a baseline on the first run', async () => {
+        const result = await cleanupList('ls000000010');
+
+        expect(result.hadPrevious).toBe(false);
+        expect(result.currentCount).toBe(6);
+        expect(result.removed).toEqual([]);
+        expect(sonarr.requests).toEqual([]);
+    });
+
+    test('unmonitors lightly monitored series without files and audits every decision', async () => {
+        await cleanupList('ls000000011');
+        listItems = listOf(['tt99']);
+
+        const result = await cleanupList('ls000000011');
+
+        expect(result.removed).toEqual(['tt10', 'tt20', 'tt30', 'tt40', 'tt50']);
+        expect(result.actions.map((a) => [a.imdbId, a.action])).toEqual([
+            ['tt10', 'unmonitored'],
+            ['tt20', 'skipped'],
+            ['tt30', 'skipped'],
+            ['tt40', 'skipped'],
+            ['tt50', 'failed']
+        ]);
+        expect(result.actions[1].reason).toBe('Monitor mode unknown is not one of pilot, firstSeason');
+        expect(result.actions[2].reason).toBe('Has 3 downloaded episode files');
+
+        expect(sonarr.series.find((s) => s.id === 1).monitored).toBe(false);
+        expect(sonarr.series.find((s) => s.id === 3).monitored).toBe(true);
+        expect(sonarr.requests.filter((r) => r.method !== 'GET')).toHaveLength(1);
+
+        const audit = getCleanupAudit('ls000000011');
+        expect(audit).toHaveLength(5);
+        expect(audit[0].imdbId).toBe('tt50');
+    });
+
+    test('retries failed shows on the next run', async () => {
+        await cleanupList('ls000000012');
+        listItems = listOf(['tt99']);
+        await cleanupList('ls000000012');
+
+        const result = await cleanupList('ls000000012');
+        expect(result.removed).toEqual(['tt50']);
+    });
+
+    test('dry run changes nothing', async () => {
+        await cleanupList('ls000000013');
+        listItems = listOf(['tt99']);
+
+        const dryRun = await cleanupList('ls000000013', { dryRun: true });
+        expect(dryRun.actions[0]).toMatchObject({ imdbId: 'tt10', action: 'unmonitored', dryRun: true });
+        expect(sonarr.requests.filter((r) => r.method !== 'GET')).toEqual([]);
+        expect(getCleanupAudit('ls000000013')).toEqual([]);
+
+        const real = await cleanupList('ls000000013');
+        expect(real.removed).toHaveLength(5);
+    });
+
+    test('deletes instead of unmonitoring when configured, keeping files', async () => {
+        process.env.CLEANUP_ACTION = 'delete';
+        await cleanupList('ls000000014');
+        listItems = listOf(['tt20', 'tt30', 'tt40', 'tt50', 'tt99']);
+
+        const result = await cleanupList('ls000000014');
+
+        expect(result.actions).toHaveLength(1);
+        expect(result.actions[0]).toMatchObject({ imdbId: 'tt10', tvdbId: 10, sonarrId: 1, action: 'deleted' });
+        expect(sonarr.series.map((s) => s.id)).toEqual([2, 3]);
+        expect(sonarr.requests.find((r) => r.method === 'DELETE')?.path).toBe('/api/v3/series/1?deleteFiles=false');
+    });
+
+    test('leaves series without a sync record alone unless inference is enabled', async () => {
+        delete process.env.CLEANUP_INFER_MONITOR_MODE;
+        await cleanupList('ls000000016');
+        listItems = listOf(['tt99']);
+
+        const result = await cleanupList('ls000000016');
+        expect(result.actions[0]).toMatchObject({ imdbId: 'tt10', action: 'skipped', reason: 'Monitor mode unknown is not one of pilot, firstSeason' });
+        expect(sonarr.requests.filter((r) => r.method !== 'GET')).toEqual([]);
+    });
+
+    test('never deletes a one-season show monitored as all', async () => {
+        process.env.CLEANUP_ACTION = 'delete';
+        sonarr.series.push({ id: 6, title: 'New Show', tvdbId: 60, monitored: true, seasons: [{ seasonNumber: 0, monitored: false }, { seasonNumber: 1, monitored: true }], statistics: { episodeFileCount: 0 } });
+        listItems = listOf(['tt60']);
+        await cleanupList('ls000000017');
+        listItems = listOf(['tt99']);
+
+        const result = await cleanupList('ls000000017');
+        expect(result.actions[0]).toMatchObject({ imdbId: 'tt60', action: 'skipped', reason: 'Monitor mode unknown is not one of pilot, firstSeason' });
+        expect(sonarr.series.map((s) => s.id)).toContain(6);
+    });
+
+    test('refuses to treat an empty fetch as every show removed', async () => {
+        await cleanupList('ls000000015');
+        listItems = [];
+
+        await expect(cleanupList('ls000000015')).rejects.toThrow('refusing');
+    });
+
+    test('validates the configured action and monitor modes', () => {
+        process.env.CLEANUP_ACTION = 'purge';
+        expect(() => getCleanupSettings()).toThrow('CLEANUP_ACTION must be one of unmonitor, delete');
+
+        process.env.CLEANUP_ACTION = 'delete';
+        process.env.CLEANUP_MONITOR_MODES = 'pilot, sometimes';
+        expect(() => getCleanupSettings()).toThrow('CLEANUP_MONITOR_MODES has unknown modes: sometimes');
+    });
+});
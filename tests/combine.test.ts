@@ -0,0 +1,90 @@
+import { describe, expect, test, spyOn, mock } from 'bun:test';
+import { combineLists, fetchCombinedItems, parseCombinedQuery } from '../src/combine';
+import * as imdb from '../src/imdb';
+import type { IMDBItem } from '../src/types';
+
+const show = (imdbId: string): IMDBItem => ({ imdbId, title: imdbId, type: 'tvSeries' });
+
+describe('Combined Lists', () => {
+    const household = [show('tt1'), show('tt2'), show('tt3')];
+    const curated = [show('tt3'), show('tt4'), show('tt1')];
+    const watched = [show('tt2')];
+
+    describe('combineLists', () => {
+        test('union keeps every item once, in first-seen order', () => {
+            const ids = combineLists([household, curated], 'union').map((i) => i.imdbId);
+            expect(ids).toEqual(['tt1', 'tt2', 'tt3', 'tt4']);
+        });
+
+        test('intersection keeps items on every list', () => {
+            const ids = combineLists([household, curated], 'intersection').map((i) => i.imdbId);
+            expect(ids).toEqual(['tt1', 'tt3']);
+        });
+
+        test('difference keeps items on the first list only', () => {
+            const ids = combineLists([household, curated, watched], 'difference').map((i) => i.imdbId);
+            expect(ids).toEqual([]);
+            expect(combineLists([household, watched], 'difference').map((i) => i.imdbId)).toEqual(['tt1', 'tt3']);
+        });
+
+        test('deduplicates repeated items within a list', () => {
+            const ids = combineLists([[show('tt1'), show('tt1')], [show('tt1')]], 'intersection').map((i) => i.imdbId);
+            expect(ids).toEqual(['tt1']);
+        });
+    });
+
+    describe('fetchCombinedItems', () => {
+        test('records the source lists of each item', async () => {
+            const lists: Record<string, IMDBItem[]> = { ur1: household, ls2: curated };
+            spyOn(imdb, 'fetchIMDBList').mockImplementation((async (listId: string) => lists[listId]) as any);
+
+            const { items, sources } = await fetchCombinedItems(['ur1', 'ls2'], 'intersection');
+            mock.restore();
+
+            expect(items.map((i) => i.imdbId)).toEqual(['tt1', 'tt3']);
+            expect(sources.get('tt1')).toEqual(['ur1', 'ls2']);
+            expect(sources.get('tt2')).toEqual(['ur1']);
+        });
+
+        test('fetches every list in full and applies maxItems and page to the result', async () => {
+            const lists: Record<string, IMDBItem[]> = {
+                ur1: [show('tt1'), show('tt2'), show('tt3'), show('tt4')],
+                // tt1 is far down the second list, past maxItems
+                ls2: [show('tt7'), show('tt8'), show('tt1')],
+            };
+            const fetchSpy = spyOn(imdb, 'fetchIMDBList').mockImplementation((async (listId: string, options?: imdb.FetchIMDBListOptions) =>
+                lists[listId].slice(0, options?.maxItems)) as any);
+
+            const { items } = await fetchCombinedItems(['ur1', 'ls2'], 'difference', { maxItems: 2 });
+            const firstPage = await fetchCombinedItems(['ur1', 'ls2'], 'difference', { fetchAll: false, page: 1 });
+            const calls = fetchSpy.mock.calls.map((call) => call[1]);
+            mock.restore();
+
+            expect(items.map((i) => i.imdbId)).toEqual(['tt2', 'tt3']);
+            expect(firstPage.items.map((i) => i.imdbId)).toEqual(['tt2', 'tt3', 'tt4']);
+            expect(calls.every((options) => options?.fetchAll === true && options.maxItems === undefined)).toBe(true);
+        });
+    });
+
+    describe('parseCombinedQuery', () => {
+        test('parses lists and defaults to union', () => {
+            expect(parseCombinedQuery({ lists: 'ur12345678, ls036390872' })).toEqual({
+                listIds: ['ur12345678', 'ls036390872'],
+                operation: 'union'
+            });
+        });
+
+        test('rejects missing or invalid lists and operations', () => {
+            expect('error' in parseCombinedQuery({})).toBe(true);
+            expect(parseCombinedQuery({ lists: 'ur1,bogus' })).toEqual({
+                error: 'Invalid list IDs: bogus. Expected format: ur12345678 or ls12345678'
+            });
+            expect(parseCombinedQuery({ lists: 'ur1,ls2', op: 'xor' })).toEqual({
+                error: 'Unknown op "xor". Expected one of: union, intersection, difference'
+            });
+            expect(parseCombinedQuery({ lists: 'ur1', op: 'difference' })).toEqual({
+                error: 'op=difference needs at least two lists'
+            });
+        });
+    });
+});
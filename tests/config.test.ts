@@ -0,0 +1,165 @@
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { validateConfigFile, loadConfig, getProfile } from '../src/config';
+
+describe('Config', () => {
+    describe('validateConfigFile', () => {
+        test('applies defaults to a minimal profile', () => {
+            const result = validateConfigFile({ profiles: { household: { sources: ['ur12345678'] } } });
+            expect(result).toEqual({
+                profiles: {
+                    household: {
+                        name: 'household',
+                        sources: ['ur12345678'],
+                        operation: 'union',
+                        maxItems: undefined,
+                        exclude: [],
+                        filters: { includeGenres: [], excludeGenres: [], types: ['tvSeries', 'tvMiniSeries'] },
+                        format: 'full'
+                    }
+                }
+            });
+        });
+
+        test('parses filters with the same rules as query parameters', () => {
+            const result = validateConfigFile({
+                profiles: {
+                    dramas: {
+                        sources: ['ls036390872', 'https://www.imdb.com/list/ls000000001/'],
+                        operation: 'difference',
+                        types: ['tvMiniSeries'],
+                        maxItems: 100,
+                        exclude: ['tt0903747'],
+                        filters: { genres: 'Drama,-Reality-TV', minRating: 7 },
+                        format: 'minimal'
+                    }
+                }
+            });
+            if ('errors' in result) throw new Error(result.errors.join('; '));
+
+            const profile = result.profiles.dramas;
+            expect(profile.filters).toEqual({
+                includeGenres: ['drama'],
+                excludeGenres: ['reality-tv'],
+                minRating: 7,
+                types: ['tvMiniSeries']
+            });
+            expect(profile.operation).toBe('difference');
+            expect(profile.format).toBe('minimal');
+        });
+
+        test('reports every problem found', () => {
+            const result = validateConfigFile({
+                profiles: {
+                    'bad name': { sources: ['ur1'] },
+                    broken: {
+                        sources: ['not-a-list'],
+                        operation: 'intersection',
+                        maxItems: -1,
+                        exclude: ['123'],
+                        filters: { minRating: 'high', colour: 'red' },
+                        format: 'xml',
+                        sonar: {}
+                    }
+                }
+            });
+
+            expect('errors' in result).toBe(true);
+            if (!('errors' in result)) return;
+            expect(result.errors).toEqual([
+                'profiles.bad name: name may only contain letters, digits, "-" and "_"',
+                'profiles.broken: unknown key "sonar"',
+                'profiles.broken.sources: invalid IMDB list ID or URL "not-a-list"',
+                'profiles.broken.operation: intersection needs at least two sources',
+                'profiles.broken.maxItems: must be a positive whole number',
+                'profiles.broken.exclude: must be an array of IMDB IDs (tt1234567)',
+                'profiles.broken.format: must be "full" or "minimal"',
+                'profiles.broken.filters: unknown filter "colour"',
+                'profiles.broken: minRating must be a number, got "high"'
+            ]);
+        });
+
+        test('validates sonarr add options and applies their defaults', () => {
+            const valid = validateConfigFile({
+                profiles: {
+                    household: {
+                        sources: ['ur12345678'],
+                        sonarr: { qualityProfileId: 4, rootFolderPath: '/tv', tags: [' imdb '] }
+                    }
+                }
+            });
+            if ('errors' in valid) throw new Error(valid.errors.join('; '));
+            expect(valid.profiles.household.sonarr).toEqual({
+                qualityProfileId: 4,
+                rootFolderPath: '/tv',
+                languageProfileId: undefined,
+                monitor: 'all',
+                seasonFolder: true,
+                seriesType: 'standard',
+                tags: ['imdb'],
+                searchForMissingEpisodes: false
+            });
+
+            const invalid = validateConfigFile({
+                profiles: {
+                    household: {
+                        sources: ['ur12345678'],
+                        sonarr: { qualityProfileId: 0, monitor: 'everything', seasonFolder: 'yes', tags: 'imdb' }
+                    }
+                }
+            });
+            expect(invalid).toEqual({
+                errors: [
+                    'profiles.household.sonarr.qualityProfileId: must be a positive whole number',
+                    'profiles.household.sonarr.rootFolderPath: must be a non-empty string',
+                    'profiles.household.sonarr.monitor: must be one of all, future, missing, existing, pilot, firstSeason, latestSeason, none',
+                    'profiles.household.sonarr.seasonFolder: must be true or false',
+                    'profiles.household.sonarr.tags: must be an array of tag labels'
+                ]
+            });
+        });
+
+        test('requires a profiles object', () => {
+            expect(validateConfigFile([])).toEqual({ errors: ['config must be a JSON object'] });
+            expect(validateConfigFile({})).toEqual({ errors: ['profiles: must be an object of named profiles'] });
+        });
+    });
+
+    describe('loadConfig', () => {
+        let dir: string;
+        const originalConfigFile = process.env.CONFIG_FILE;
+
+        beforeAll(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-config-'));
+        });
+
+        afterAll(() => {
+            process.env.CONFIG_FILE = originalConfigFile;
+            if (originalConfigFile === undefined) delete process.env.CONFIG_FILE;
+            loadConfig();
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        test('loads profiles from CONFIG_FILE', () => {
+            const file = path.join(dir, 'config.json');
+            fs.writeFileSync(file, JSON.stringify({ profiles: { household: { sources: ['ur12345678'] } } }));
+            process.env.CONFIG_FILE = file;
+
+            const config = loadConfig();
+            expect(Object.keys(config.profiles)).toEqual(['household']);
+            expect(getProfile('household')?.sources).toEqual(['ur12345678']);
+            expect(getProfile('missing')).toBeUndefined();
+            expect(getProfile('toString')).toBeUndefined();
+        });
+
+        test('throws with the validation errors for an invalid file', () => {
+            const file = path.join(dir, 'invalid.json');
+            fs.writeFileSync(file, JSON.stringify({ profiles: { empty: { sources: [] } } }));
+            process.env.CONFIG_FILE = file;
+
+            expect(() => loadConfig()).toThrow('profiles.empty.sources: must be a non-empty array');
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test, spyOn, beforeEach, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import * as tvdb from '../src/tvdb';
+import { recordSnapshot } from '../src/snapshots';
+import { buildFeedEntries, renderRss, renderAtom, parseFeedLimit } from '../src/feed';
+import type { IMDBItem } from '../src/types';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-feed-'));
+
+const DAY = 86400 * 1000;
+const start = Date.parse('2024-05-01T00:00:00Z');
+
+const show: IMDBItem = { imdbId: 'tt0903747', title: 'Breaking Bad', type: 'tvSeries', year: 2008 };
+const movie: IMDBItem = { imdbId: 'tt0111161', title: 'Shawshank & "Friends"', type: 'movie', year: 1994 };
+const later: IMDBItem = { imdbId: 'tt2442560', title: 'Peaky Blinders', type: 'tvSeries', year: 2013 };
+
+describe('Feeds', () => {
+    beforeEach(() => {
+        spyOn(tvdb, 'isResolverConfigured').mockReturnValue(true);
+        spyOn(tvdb, 'resolveItems').mockImplementation(async (items) =>
+            items.map((item) =>
+                item.imdbId === 'tt0903747'
+                    ? { item, resolution: { outcome: 'resolved', imdbId: item.imdbId, tvdbId: 81189, title: 'Breaking Bad', cached: true, provider: 'tmdb' } }
+                    : { item, resolution: { outcome: 'not-found', imdbId: item.imdbId, cached: true } }
+            )
+        );
+    });
+
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test('lists the most recent additions first with stable GUIDs', async () => {
+        recordSnapshot('ls100000001', [show, movie], start);
+        recordSnapshot('ls100000001', [show, movie, later], start + DAY);
+
+        const entries = await buildFeedEntries('ls100000001', [show, movie, later]);
+        expect(entries.map((e) => [e.imdbId, e.addedAt])).toEqual([
+            ['tt2442560', start + DAY],
+            ['tt0111161', start],
+            ['tt0903747', start]
+        ]);
+        expect(entries[2]).toEqual({
+            guid: 'urn:imdbarr:ls100000001:tt0903747',
+            imdbId: 'tt0903747',
+            title: 'Breaking Bad',
+            year: 2008,
+            type: 'tvSeries',
+            url: 'https://www.imdb.com/title/tt0903747/',
+            tvdbId: 81189,
+            addedAt: start
+        });
+
+        const again = await buildFeedEntries('ls100000001', [show, movie, later], 1);
+        expect(again.map((e) => e.guid)).toEqual(['urn:imdbarr:ls100000001:tt2442560']);
+    });
+
+    test('resolves TVDB IDs without TMDB when another resolver is configured', async () => {
+        spyOn(tvdb, 'isTMDBConfigured').mockReturnValue(false);
+        expect((await buildFeedEntries('ls100000003', [show]))[0].tvdbId).toBe(81189);
+
+        spyOn(tvdb, 'isResolverConfigured').mockReturnValue(false);
+        expect((await buildFeedEntries('ls100000003', [show]))[0].tvdbId).toBeUndefined();
+    });
+
+    test('only looks up TVDB IDs for TV shows', async () => {
+        const resolveSpy = spyOn(tvdb, 'resolveItems').mockImplementation(async () => []);
+        await buildFeedEntries('ls100000002', [show, movie]);
+        expect(resolveSpy.mock.calls[0][0].map((item) => item.imdbId)).toEqual(['tt0903747']);
+    });
+
+    test('renders escaped RSS and Atom', async () => {
+        recordSnapshot('ls100000003', [show, movie], start);
+        const entries = await buildFeedEntries('ls100000003', [show, movie]);
+        const feed = { title: 'IMDB list ls100000003', link: 'https://www.imdb.com/list/ls100000003/', selfUrl: 'http://localhost:3000/list/ls100000003/feed.xml' };
+
+        const rss = renderRss(feed, entries);
+        expect(rss).toContain('<guid isPermaLink="false">urn:imdbarr:ls100000003:tt0903747</guid>');
+        expect(rss).toContain('<title>Breaking Bad (2008)</title>');
+        expect(rss).toContain('<description>TV series · 2008 · TVDB 81189 · tt0903747</description>');
+        expect(rss).toContain('<title>Shawshank &amp; &quot;Friends&quot; (1994)</title>');
+        expect(rss).toContain(`<pubDate>${new Date(start).toUTCString()}</pubDate>`);
+
+        const atom = renderAtom({ ...feed, id: 'urn:imdbarr:ls100000003' }, entries);
+        expect(atom).toContain('<id>urn:imdbarr:ls100000003:tt0111161</id>');
+        expect(atom).toContain('<updated>2024-05-01T00:00:00.000Z</updated>');
+        expect(atom).toContain('<link href="https://www.imdb.com/title/tt0903747/"/>');
+    });
+
+    test('bounds the feed size', () => {
+        expect(parseFeedLimit(undefined)).toBe(50);
+        expect(parseFeedLimit('10')).toBe(10);
+        expect(parseFeedLimit('10000')).toBe(250);
+        expect(parseFeedLimit('-1')).toBe(50);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { parseItemFilters, applyItemFilters } from '../src/filters';
+import type { IMDBItem } from '../src/types';
+
+const items: IMDBItem[] = [
+    { imdbId: 'tt1', title: 'Drama Series', type: 'tvSeries', year: 2020, rating: 8.5, votes: 50000, genres: ['Drama'] },
+    { imdbId: 'tt2', title: 'Reality Show', type: 'tvSeries', year: 2022, rating: 5.1, votes: 800, genres: ['Drama', 'Reality-TV'] },
+    { imdbId: 'tt3', title: 'Comedy Mini', type: 'tvMiniSeries', year: 2015, rating: 7.2, votes: 12000, genres: ['Comedy'] },
+    { imdbId: 'tt4', title: 'Some Movie', type: 'movie', year: 1999, rating: 8.8, votes: 2000000, genres: ['Drama'] },
+    { imdbId: 'tt5', title: 'No Metadata', type: 'tvSeries' },
+];
+
+function filter(query: Record<string, unknown>): string[] {
+    const parsed = parseItemFilters(query);
+    if ('error' in parsed) throw new Error(parsed.error);
+    return applyItemFilters(items, parsed.filters).map((i) => i.imdbId);
+}
+
+describe('Item Filters', () => {
+    test('returns every item when no filter is set', () => {
+        expect(filter({})).toEqual(['tt1', 'tt2', 'tt3', 'tt4', 'tt5']);
+    });
+
+    test('includes and excludes genres case-insensitively', () => {
+        expect(filter({ genres: 'drama,-Reality-TV' })).toEqual(['tt1', 'tt4']);
+        expect(filter({ genres: ['Comedy', 'Drama'] })).toEqual(['tt1', 'tt2', 'tt3', 'tt4']);
+        expect(filter({ genres: '-Drama' })).toEqual(['tt3', 'tt5']);
+    });
+
+    test('filters by rating, votes and year bounds', () => {
+        expect(filter({ minRating: '7', maxRating: '8.6' })).toEqual(['tt1', 'tt3']);
+        expect(filter({ minVotes: '10000' })).toEqual(['tt1', 'tt3', 'tt4']);
+        expect(filter({ yearFrom: '2015', yearTo: '2020' })).toEqual(['tt1', 'tt3']);
+    });
+
+    test('filters by item type', () => {
+        expect(filter({ types: 'tvMiniSeries,movie' })).toEqual(['tt3', 'tt4']);
+    });
+
+    test('rejects invalid values with a clear message', () => {
+        expect(parseItemFilters({ minRating: 'high' })).toEqual({ error: 'minRating must be a number, got "high"' });
+        expect(parseItemFilters({ maxRating: '11' })).toEqual({ error: 'maxRating must be at most 10, got 11' });
+        expect(parseItemFilters({ minVotes: '1.5' })).toEqual({ error: 'minVotes must be a whole number, got "1.5"' });
+        expect(parseItemFilters({ yearFrom: '2020', yearTo: '2010' })).toEqual({ error: 'yearFrom cannot be greater than yearTo' });
+        expect(parseItemFilters({ genres: 'Drama,-' })).toEqual({ error: 'genres contains an empty exclusion ("-")' });
+        expect('error' in parseItemFilters({ types: 'tvSeries,podcast' })).toBe(true);
+    });
+});
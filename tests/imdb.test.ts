@@ -1,6 +1,15 @@
-import { describe, expect, test, mock, beforeAll, afterAll } from 'bun:test';
-import { parseListId, parseIMDBType, parseIMDBListPage, filterTVShows, filterPotentialTVShows, extractListMetadata, fetchIMDBList } from '../src/imdb';
+import { describe, expect, test, mock, beforeAll, afterAll, spyOn } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseListId, parseIMDBType, parseIMDBListPage, filterTVShows, filterPotentialTVShows, filterMovies, extractListMetadata, extractNextDataMetadata, extractJsonLdMetadata, fetchIMDBList } from '../src/imdb';
+import { getSingleFlightStats } from '../src/singleflight';
+import * as notify from '../src/notify';
+import { getSnapshots } from '../src/snapshots';
 import type { IMDBItem } from '../src/types';
+import { fetchMock } from './mock-fetch';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-imdb-'));
 
 describe('IMDB Utils', () => {
     describe('parseListId', () => {
@@ -72,6 +81,20 @@ describe('IMDB Utils', () => {
         });
     });
 
+    describe('filterMovies', () => {
+        test('filters only movies', () => {
+            const items = [
+                { imdbId: '1', title: 'Show 1', type: 'tvSeries' },
+                { imdbId: '2', title: 'Movie 1', type: 'movie' },
+                { imdbId: '3', title: 'Short 1', type: 'short' },
+                { imdbId: '4', title: 'Unknown', type: 'unknown' },
+            ] as any;
+
+            const result = filterMovies(items);
+            expect(result.map(i => i.imdbId)).toEqual(['2']);
+        });
+    });
+
     describe('parseIMDBListPage', () => {
         test('parses items from NEXT_DATA json', () => {
              const htmlSimple = `
@@ -104,6 +127,88 @@ describe('IMDB Utils', () => {
         });
     });
 
+    describe('item metadata', () => {
+        test('extracts metadata from a NEXT_DATA title node', () => {
+            const node = {
+                id: 'tt14452776',
+                ratingsSummary: { aggregateRating: 8.6, voteCount: 250000 },
+                titleGenres: { genres: [{ genre: { text: 'Comedy' } }, { genre: { text: 'Drama' } }] },
+                runtime: { seconds: 1800 },
+                primaryImage: { url: 'https://m.media-amazon.com/images/bear.jpg' },
+                plot: { plotText: { plainText: 'A young chef returns home.' } },
+                certificate: { rating: 'TV-MA' }
+            };
+
+            expect(extractNextDataMetadata(node)).toEqual({
+                rating: 8.6,
+                votes: 250000,
+                genres: ['Comedy', 'Drama'],
+                runtimeMinutes: 30,
+                posterUrl: 'https://m.media-amazon.com/images/bear.jpg',
+                plot: 'A young chef returns home.',
+                certificate: 'TV-MA'
+            });
+        });
+
+        test('omits fields that are missing', () => {
+            expect(extractNextDataMetadata({ id: 'tt1' })).toEqual({});
+        });
+
+        test('extracts metadata from a JSON-LD entry', () => {
+            const itemData = {
+                '@type': 'Movie',
+                aggregateRating: { ratingValue: 8.8, ratingCount: 2300000 },
+                genre: 'Drama, Thriller',
+                duration: 'PT2H19M',
+                image: 'https://m.media-amazon.com/images/fightclub.jpg',
+                description: 'An insomniac office worker...',
+                contentRating: 'R'
+            };
+
+            expect(extractJsonLdMetadata(itemData)).toEqual({
+                rating: 8.8,
+                votes: 2300000,
+                genres: ['Drama', 'Thriller'],
+                runtimeMinutes: 139,
+                posterUrl: 'https://m.media-amazon.com/images/fightclub.jpg',
+                plot: 'An insomniac office worker...',
+                certificate: 'R'
+            });
+        });
+
+        test('parseIMDBListPage fills metadata from NEXT_DATA and JSON-LD', () => {
+            const html = `
+                <html>
+                <script id="__NEXT_DATA__">
+                    {"items": [{
+                        "id": "tt1234567",
+                        "titleText": { "text": "Test Series" },
+                        "titleType": { "id": "tvSeries" },
+                        "ratingsSummary": { "aggregateRating": 7.5, "voteCount": 1200 }
+                    }]}
+                </script>
+                <script type="application/ld+json">
+                    {"@type": "ItemList", "itemListElement": [{
+                        "item": {
+                            "@type": "TVSeries",
+                            "url": "https://www.imdb.com/title/tt1234567/",
+                            "name": "Test Series",
+                            "aggregateRating": { "ratingValue": 9.9, "ratingCount": 1 },
+                            "genre": ["Crime"]
+                        }
+                    }]}
+                </script>
+                </html>
+            `;
+
+            const [item] = parseIMDBListPage(html);
+            // NEXT_DATA values win, JSON-LD only fills the gaps
+            expect(item.rating).toBe(7.5);
+            expect(item.votes).toBe(1200);
+            expect(item.genres).toEqual(['Crime']);
+        });
+    });
+
     describe('extractListMetadata', () => {
         test('extracts total from NEXT_DATA', () => {
             const html = `
@@ -179,7 +284,7 @@ describe('IMDB Utils', () => {
 
         beforeAll(() => {
             // Mock fetch for testing - use page=N parameter (IMDB's actual format)
-            globalThis.fetch = mock(async (url: string | URL | Request) => {
+            globalThis.fetch = fetchMock(mock(async (url: string | URL | Request) => {
                 fetchCallCount++;
                 const urlStr = url.toString();
                 lastFetchUrls.push(urlStr);
@@ -200,7 +305,7 @@ describe('IMDB Utils', () => {
                 }
 
                 return new Response(generateMockPage(pageStart, itemsOnPage, totalItems), { status: 200 });
-            }) as typeof fetch;
+            }));
         });
 
         afterAll(() => {
@@ -222,6 +327,61 @@ describe('IMDB Utils', () => {
             expect(items[999].imdbId).toBe('tt0001000');
         });
 
+        test('stores a snapshot only when the whole list was fetched', async () => {
+            await fetchIMDBList('ls200000001', { fetchAll: false });
+            await fetchIMDBList('ls200000001', { fetchAll: true, maxItems: 300 });
+            expect(getSnapshots('ls200000001')).toEqual([]);
+
+            await fetchIMDBList('ls200000001', { fetchAll: true });
+            const snapshots = getSnapshots('ls200000001');
+            expect(snapshots).toHaveLength(1);
+            expect(snapshots[0].items).toHaveLength(1000);
+        });
+
+        test('does not treat a blocked page as every item removed', async () => {
+            const notifySpy = spyOn(notify, 'notifyListChanges').mockResolvedValue([]);
+            const warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+            await fetchIMDBList('ls200000002', { fetchAll: true });
+
+            const mockFetch = globalThis.fetch;
+            globalThis.fetch = fetchMock(async () => new Response('<html><body>Captcha</body></html>'));
+            try {
+                expect(await fetchIMDBList('ls200000002', { fetchAll: true })).toEqual([]);
+            } finally {
+                globalThis.fetch = mockFetch;
+            }
+
+            expect(getSnapshots('ls200000002').map((s) => s.items.length)).toEqual([1000]);
+            expect(notifySpy).not.toHaveBeenCalled();
+            notifySpy.mockRestore();
+            warnSpy.mockRestore();
+        });
+
+        test('concurrent fetches of the same list share one set of page requests', async () => {
+            fetchCallCount = 0;
+            const joinedBefore = getSingleFlightStats().imdbList.joined;
+
+            const [first, second, detailed] = await Promise.all([
+                fetchIMDBList('ls123456789', { fetchAll: false }),
+                fetchIMDBList('ls123456789', { fetchAll: false }),
+                fetchIMDBList('ls123456789', { fetchAll: false, detailed: true }),
+            ]);
+
+            expect(fetchCallCount).toBe(1);
+            expect(second).toEqual(first);
+            expect(second).not.toBe(first);
+            expect(detailed.items).toHaveLength(250);
+            expect(getSingleFlightStats().imdbList.joined - joinedBefore).toBe(2);
+
+            // Different options are fetched separately
+            fetchCallCount = 0;
+            await Promise.all([
+                fetchIMDBList('ls123456789', { fetchAll: false }),
+                fetchIMDBList('ls123456789', { fetchAll: false, page: 2 }),
+            ]);
+            expect(fetchCallCount).toBe(2);
+        });
+
         test('fetchAll=false returns only first page (250 items)', async () => {
             fetchCallCount = 0;
             lastFetchUrls = [];
@@ -0,0 +1,74 @@
+import { describe, expect, test, spyOn, afterEach, mock } from 'bun:test';
+import { createLogger, getLogSettings, getRequestId, runWithRequestId } from '../src/logger';
+
+const log = createLogger('Test');
+
+// Drop the timestamp that starts every text line
+const withoutTime = (calls: unknown[][]) =>
+    calls.map(([line, ...details]) => [String(line).replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z /, ''), ...details]);
+
+describe('Logger', () => {
+    afterEach(() => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.LOG_FORMAT;
+        mock.restore();
+    });
+
+    test('defaults to info level and text output', () => {
+        expect(getLogSettings()).toEqual({ level: 'info', format: 'text' });
+
+        process.env.LOG_LEVEL = 'nonsense';
+        expect(getLogSettings().level).toBe('info');
+    });
+
+    test('prefixes messages with the time and scope and drops those below LOG_LEVEL', () => {
+        const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+        const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+        log.debug('hidden');
+        log.info('shown', 42);
+        log.error('failed');
+        expect(logSpy.mock.calls[0][0]).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z \[Test\] shown$/);
+        expect(withoutTime(logSpy.mock.calls)).toEqual([['[Test] shown', 42]]);
+        expect(withoutTime(errorSpy.mock.calls)).toEqual([['[Test] failed']]);
+
+        process.env.LOG_LEVEL = 'warn';
+        log.info('hidden too');
+        expect(logSpy).toHaveBeenCalledTimes(1);
+
+        process.env.LOG_LEVEL = 'debug';
+        log.debug('now shown');
+        expect(withoutTime(logSpy.mock.calls).pop()).toEqual(['[Test] now shown']);
+    });
+
+    test('writes one JSON object per line with LOG_FORMAT=json', () => {
+        process.env.LOG_FORMAT = 'json';
+        const warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+
+        log.warn('slow', new Error('timeout'), { page: 2 });
+
+        const entry = JSON.parse(warnSpy.mock.calls[0][0] as string);
+        expect(entry).toMatchObject({
+            level: 'warn',
+            scope: 'Test',
+            message: 'slow',
+            details: [{ name: 'Error', message: 'timeout' }, { page: 2 }],
+        });
+        expect(typeof entry.time).toBe('string');
+        expect(entry.requestId).toBeUndefined();
+    });
+
+    test('carries the request ID across awaits', async () => {
+        const logSpy = spyOn(console, 'log').mockImplementation(() => {});
+
+        await runWithRequestId('req-1', async () => {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            expect(getRequestId()).toBe('req-1');
+            log.info('inside');
+        });
+        log.info('outside');
+
+        expect(withoutTime(logSpy.mock.calls)).toEqual([['[Test] [req-1] inside'], ['[Test] outside']]);
+        expect(getRequestId()).toBeUndefined();
+    });
+});
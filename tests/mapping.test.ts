@@ -0,0 +1,57 @@
+import { describe, expect, test, spyOn, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { findMapping, validateMappingFile } from '../src/mapping';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-mapping-'));
+
+describe('Mapping File', () => {
+    afterEach(() => {
+        delete process.env.MAPPING_FILE;
+        mock.restore();
+    });
+
+    test('accepts TVDB IDs and objects with a title', () => {
+        const result = validateMappingFile({ tt1: 100, tt2: { tvdbId: 200, title: 'Two' } });
+        expect(result).toEqual({
+            mappings: new Map([
+                ['tt1', { tvdbId: 100, title: undefined }],
+                ['tt2', { tvdbId: 200, title: 'Two' }],
+            ]),
+        });
+    });
+
+    test('reports every invalid entry', () => {
+        const result = validateMappingFile({ nope: 1, tt1: 'x', tt2: { tvdbId: -1 }, tt3: { tvdbId: 3, title: 4 } });
+        expect('errors' in result && result.errors).toHaveLength(4);
+        expect(validateMappingFile([])).toHaveProperty('errors');
+    });
+
+    test('looks up IMDB IDs and picks up changes to the file', () => {
+        const file = path.join(dir, 'mapping.json');
+        fs.writeFileSync(file, JSON.stringify({ tt0386676: 73244 }));
+        process.env.MAPPING_FILE = file;
+
+        expect(findMapping('tt0386676', { title: 'The Office' })).toEqual({ outcome: 'resolved', tvdbId: 73244, title: 'The Office' });
+        expect(findMapping('tt0903747')).toEqual({ outcome: 'not-found' });
+
+        fs.writeFileSync(file, JSON.stringify({ tt0903747: { tvdbId: 81189, title: 'Breaking Bad' } }));
+        fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+        expect(findMapping('tt0903747')).toEqual({ outcome: 'resolved', tvdbId: 81189, title: 'Breaking Bad' });
+        expect(findMapping('tt0386676').outcome).toBe('not-found');
+    });
+
+    test('keeps the last good mappings when the file becomes invalid', () => {
+        const file = path.join(dir, 'broken.json');
+        fs.writeFileSync(file, JSON.stringify({ tt1: 100 }));
+        process.env.MAPPING_FILE = file;
+        expect(findMapping('tt1').outcome).toBe('resolved');
+
+        const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+        fs.writeFileSync(file, '{ not json');
+        fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+        expect(findMapping('tt1').outcome).toBe('resolved');
+        expect(errorSpy).toHaveBeenCalled();
+    });
+});
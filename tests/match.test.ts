@@ -0,0 +1,53 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import { getFuzzyMatchThreshold, normalizeTitle, pickBestMatch, scoreCandidate, titleSimilarity } from '../src/match';
+
+describe('Title Matching', () => {
+    afterEach(() => {
+        delete process.env.FUZZY_MATCH_THRESHOLD;
+    });
+
+    test('normalizes accents, punctuation, ampersands and leading articles', () => {
+        expect(normalizeTitle('The Office')).toBe('office');
+        expect(normalizeTitle('Pokémon: Indigo League')).toBe('pokemon indigo league');
+        expect(normalizeTitle('Law & Order')).toBe('law and order');
+        expect(normalizeTitle('  A.P. Bio ')).toBe('p bio');
+    });
+
+    test('scores title similarity between 0 and 1', () => {
+        expect(titleSimilarity('The Office', 'Office')).toBe(1);
+        expect(titleSimilarity('Breaking Bad', 'Breaking Bda')).toBeGreaterThan(0.8);
+        expect(titleSimilarity('Breaking Bad', 'Friends')).toBeLessThan(0.3);
+        expect(titleSimilarity('', 'Friends')).toBe(0);
+    });
+
+    test('weighs the first-air year against the IMDB year', () => {
+        const candidate = { id: 1, name: 'Dark', first_air_date: '2017-12-01' };
+        expect(scoreCandidate(candidate, 'Dark', 2017)).toBe(1);
+        expect(scoreCandidate(candidate, 'Dark', 2018)).toBeCloseTo(0.91);
+        expect(scoreCandidate(candidate, 'Dark')).toBeCloseTo(0.79);
+        expect(scoreCandidate(candidate, 'Dark', 2010)).toBeCloseTo(0.7);
+    });
+
+    test('uses the original name when it fits better', () => {
+        const candidate = { id: 1, name: 'Money Heist', original_name: 'La casa de papel', first_air_date: '2017-05-02' };
+        expect(scoreCandidate(candidate, 'La Casa de Papel', 2017)).toBe(1);
+    });
+
+    test('picks the best candidate at or above the threshold', () => {
+        const candidates = [
+            { id: 1, name: 'Shameless', first_air_date: '2004-01-13' },
+            { id: 2, name: 'Shameless', first_air_date: '2011-01-09' },
+        ];
+        expect(pickBestMatch(candidates, 'Shameless', 2011, 0.85)).toEqual({ candidate: candidates[1], confidence: 1 });
+        expect(pickBestMatch(candidates, 'Shameless', undefined, 0.85)).toBeNull();
+        expect(pickBestMatch([], 'Shameless', 2011, 0.5)).toBeNull();
+    });
+
+    test('reads the threshold from the environment', () => {
+        expect(getFuzzyMatchThreshold()).toBe(0.85);
+        process.env.FUZZY_MATCH_THRESHOLD = '0.6';
+        expect(getFuzzyMatchThreshold()).toBe(0.6);
+        process.env.FUZZY_MATCH_THRESHOLD = '2';
+        expect(getFuzzyMatchThreshold()).toBe(0.85);
+    });
+});
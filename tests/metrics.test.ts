@@ -0,0 +1,66 @@
+import { describe, expect, test, beforeEach } from 'bun:test';
+import {
+    createCounter,
+    createGauge,
+    createHistogram,
+    registerCollector,
+    renderMetrics,
+    resetMetrics,
+} from '../src/metrics';
+
+const requests = createCounter('test_requests_total', 'Test requests', ['method', 'status']);
+const size = createGauge('test_list_size', 'Test list size', ['list']);
+const latency = createHistogram('test_latency_seconds', 'Test latency', ['route'], [0.1, 1]);
+let collected = 0;
+registerCollector('test_collected', 'Test collector', 'gauge', () => [{ value: collected }]);
+
+describe('Metrics', () => {
+    beforeEach(() => {
+        resetMetrics();
+    });
+
+    test('renders counters with HELP and TYPE lines, one series per label set', () => {
+        requests.inc({ method: 'GET', status: 200 });
+        requests.inc({ status: 200, method: 'GET' });
+        requests.inc({ method: 'POST', status: 500 }, 3);
+
+        const text = renderMetrics();
+        expect(text).toContain('# HELP test_requests_total Test requests\n# TYPE test_requests_total counter\n');
+        expect(text).toContain('test_requests_total{method="GET",status="200"} 2\n');
+        expect(text).toContain('test_requests_total{method="POST",status="500"} 3\n');
+    });
+
+    test('keeps the latest gauge value and escapes label values', () => {
+        size.set({ list: 'ls1' }, 10);
+        size.set({ list: 'ls1' }, 7);
+        size.set({ list: 'a "quoted"\\list' }, 1);
+
+        const text = renderMetrics();
+        expect(text).toContain('test_list_size{list="ls1"} 7\n');
+        expect(text).toContain('test_list_size{list="a \\"quoted\\"\\\\list"} 1\n');
+    });
+
+    test('renders cumulative histogram buckets with sum and count', () => {
+        latency.observe({ route: '/a' }, 0.05);
+        latency.observe({ route: '/a' }, 0.5);
+        latency.observe({ route: '/a' }, 5);
+
+        const text = renderMetrics();
+        expect(text).toContain('test_latency_seconds_bucket{route="/a",le="0.1"} 1\n');
+        expect(text).toContain('test_latency_seconds_bucket{route="/a",le="1"} 2\n');
+        expect(text).toContain('test_latency_seconds_bucket{route="/a",le="+Inf"} 3\n');
+        expect(text).toContain('test_latency_seconds_sum{route="/a"} 5.55\n');
+        expect(text).toContain('test_latency_seconds_count{route="/a"} 3\n');
+    });
+
+    test('reads collectors at render time', () => {
+        collected = 4;
+        expect(renderMetrics()).toContain('test_collected 4\n');
+        collected = 9;
+        expect(renderMetrics()).toContain('test_collected 9\n');
+    });
+
+    test('refuses to register the same name twice', () => {
+        expect(() => createCounter('test_requests_total', 'Again')).toThrow();
+    });
+});
@@ -0,0 +1,9 @@
+/**
+ * Type a fetch stand-in as `typeof fetch`, for spyOn(global, 'fetch') and friends
+ * Bun's fetch also carries `preconnect`, which the stand-ins never need.
+ */
+export function fetchMock(
+    fn: (input: Parameters<typeof fetch>[0], init?: Parameters<typeof fetch>[1]) => Promise<Response>
+): typeof fetch {
+    return Object.assign(fn, { preconnect: () => {} });
+}
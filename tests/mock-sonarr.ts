@@ -0,0 +1,88 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * A minimal in-memory stand-in for Sonarr's v3 API, for sync tests
+ */
+export interface MockSonarr {
+    url: string;
+    apiKey: string;
+    series: any[];
+    tags: Array<{ id: number; label: string }>;
+    /** Series that /series/lookup knows about, keyed by TVDB ID */
+    lookup: Map<number, any>;
+    requests: Array<{ method: string; path: string; body?: any }>;
+    close(): Promise<void>;
+}
+
+export async function startMockSonarr(apiKey = 'test-sonarr-key'): Promise<MockSonarr> {
+    const state = {
+        series: [] as any[],
+        tags: [] as Array<{ id: number; label: string }>,
+        lookup: new Map<number, any>(),
+        requests: [] as Array<{ method: string; path: string; body?: any }>,
+    };
+    let nextId = 1;
+
+    const server = http.createServer(async (req, res) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const raw = Buffer.concat(chunks).toString();
+        const body = raw ? JSON.parse(raw) : undefined;
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = req.method || 'GET';
+        state.requests.push({ method, path: url.pathname + url.search, body });
+
+        const send = (status: number, data?: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(data === undefined ? '' : JSON.stringify(data));
+        };
+
+        if (req.headers['x-api-key'] !== apiKey) return send(401, { message: 'Unauthorized' });
+
+        const seriesMatch = url.pathname.match(/^\/api\/v3\/series\/(\d+)$/);
+
+        if (method === 'GET' && url.pathname === '/api/v3/series') return send(200, state.series);
+        if (method === 'GET' && url.pathname === '/api/v3/series/lookup') {
+            const tvdbId = parseInt((url.searchParams.get('term') || '').replace('tvdb:', ''), 10);
+            const found = state.lookup.get(tvdbId);
+            return send(200, found ? [found] : []);
+        }
+        if (method === 'POST' && url.pathname === '/api/v3/series') {
+            const created = { ...body, id: nextId++ };
+            state.series.push(created);
+            return send(201, created);
+        }
+        if (seriesMatch) {
+            const id = parseInt(seriesMatch[1], 10);
+            const index = state.series.findIndex((s) => s.id === id);
+            if (index === -1) return send(404, { message: 'Not found' });
+            if (method === 'GET') return send(200, state.series[index]);
+            if (method === 'PUT') {
+                state.series[index] = { ...state.series[index], ...body, id };
+                return send(202, state.series[index]);
+            }
+            if (method === 'DELETE') {
+                state.series.splice(index, 1);
+                return send(200, {});
+            }
+        }
+        if (method === 'GET' && url.pathname === '/api/v3/tag') return send(200, state.tags);
+        if (method === 'POST' && url.pathname === '/api/v3/tag') {
+            const tag = { id: state.tags.length + 1, label: body.label };
+            state.tags.push(tag);
+            return send(201, tag);
+        }
+
+        send(404, { message: `No mock for ${method} ${url.pathname}` });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return Object.assign(state, {
+        url: `http://127.0.0.1:${port}`,
+        apiKey,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    });
+}
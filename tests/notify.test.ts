@@ -0,0 +1,182 @@
+import { describe, expect, test, spyOn, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import * as tvdb from '../src/tvdb';
+import { notifyListChanges, getNotificationFailures, signPayload, buildDiscordPayloads, validateNotificationTargets } from '../src/notify';
+import type { ListChangeNotification, SnapshotDiff } from '../src/types';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-notify-'));
+
+const diff: SnapshotDiff = {
+    added: [{ imdbId: 'tt0903747', title: 'Breaking Bad', type: 'tvSeries', year: 2008 }],
+    removed: [{ imdbId: 'tt0000002', title: 'Old Show', type: 'tvMiniSeries' }]
+};
+
+describe('Notifications', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let received: Array<{ path: string; headers: http.IncomingHttpHeaders; body: string }>;
+    // Responses to return per path, in order; 200 once exhausted
+    let responses: Record<string, number[]>;
+
+    beforeAll(async () => {
+        server = http.createServer(async (req, res) => {
+            const chunks: Buffer[] = [];
+            for await (const chunk of req) chunks.push(chunk as Buffer);
+            received.push({ path: req.url || '', headers: req.headers, body: Buffer.concat(chunks).toString() });
+
+            // Never answer, like a webhook that hangs
+            if (req.url === '/hang') return;
+
+            const status = responses[req.url || '']?.shift() ?? 200;
+            res.writeHead(status);
+            res.end();
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        received = [];
+        responses = {};
+        process.env.NOTIFY_RETRY_DELAY_MS = '1';
+        process.env.NOTIFY_WEBHOOK_SECRET = 'shh';
+        spyOn(tvdb, 'isResolverConfigured').mockReturnValue(true);
+        spyOn(tvdb, 'resolveItems').mockImplementation(async (items) =>
+            items.map((item) =>
+                item.imdbId === 'tt0903747'
+                    ? { item, resolution: { outcome: 'resolved', imdbId: item.imdbId, tvdbId: 81189, title: 'Breaking Bad', cached: true, provider: 'tmdb' } }
+                    : { item, resolution: { outcome: 'not-found', imdbId: item.imdbId, cached: true } }
+            )
+        );
+        spyOn(console, 'warn').mockImplementation(() => {});
+        spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        for (const name of ['NOTIFY_DISCORD_WEBHOOK_URLS', 'NOTIFY_SLACK_WEBHOOK_URLS', 'NOTIFY_WEBHOOK_URLS', 'NOTIFY_LISTS', 'NOTIFY_MAX_ATTEMPTS', 'NOTIFY_RETRY_DELAY_MS', 'NOTIFY_TIMEOUT_MS', 'NOTIFY_WEBHOOK_SECRET']) {
+            delete process.env[name];
+        }
+        mock.restore();
+    });
+
+    test('posts to Discord, Slack and a signed generic webhook', async () => {
+        process.env.NOTIFY_DISCORD_WEBHOOK_URLS = `${baseUrl}/discord`;
+        process.env.NOTIFY_SLACK_WEBHOOK_URLS = `${baseUrl}/slack`;
+        process.env.NOTIFY_WEBHOOK_URLS = `${baseUrl}/hook`;
+
+        const deliveries = await notifyListChanges('ur12345678', diff);
+        expect(deliveries.map((d) => [d.channel, d.ok, d.attempts])).toEqual([
+            ['discord', true, 1],
+            ['slack', true, 1],
+            ['webhook', true, 1]
+        ]);
+
+        const discord = JSON.parse(received.find((r) => r.path === '/discord')!.body);
+        expect(discord.embeds[0]).toMatchObject({
+            title: 'Added: Breaking Bad (2008)',
+            url: 'https://www.imdb.com/title/tt0903747/',
+            fields: [{ name: 'TVDB ID', value: '81189', inline: true }]
+        });
+        expect(discord.embeds[1].title).toBe('Removed: Old Show');
+
+        const slack = JSON.parse(received.find((r) => r.path === '/slack')!.body);
+        expect(slack.text).toContain('<https://www.imdb.com/title/tt0903747/|Breaking Bad (2008)> (TVDB 81189)');
+        expect(slack.text).toContain('*Removed*\n• <https://www.imdb.com/title/tt0000002/|Old Show>');
+
+        const hook = received.find((r) => r.path === '/hook')!;
+        expect(hook.headers['x-imdbarr-signature']).toBe(signPayload(hook.body, 'shh'));
+        const payload = JSON.parse(hook.body) as ListChangeNotification;
+        expect(payload.event).toBe('list.changed');
+        expect(payload.listId).toBe('ur12345678');
+        expect(payload.added).toEqual([
+            { imdbId: 'tt0903747', title: 'Breaking Bad', year: 2008, type: 'tvSeries', imdbUrl: 'https://www.imdb.com/title/tt0903747/', tvdbId: 81189 }
+        ]);
+        expect(payload.removed[0].tvdbId).toBeUndefined();
+    });
+
+    test('retries server errors with backoff until delivered', async () => {
+        process.env.NOTIFY_WEBHOOK_URLS = `${baseUrl}/flaky`;
+        responses['/flaky'] = [503, 500];
+
+        const [delivery] = await notifyListChanges('ur12345678', diff);
+        expect(delivery).toMatchObject({ ok: true, attempts: 3, status: 200 });
+        expect(received).toHaveLength(3);
+    });
+
+    test('records a failure once every attempt has failed', async () => {
+        process.env.NOTIFY_MAX_ATTEMPTS = '2';
+        process.env.NOTIFY_WEBHOOK_URLS = `${baseUrl}/down`;
+        process.env.NOTIFY_SLACK_WEBHOOK_URLS = `${baseUrl}/gone`;
+        responses['/down'] = [502, 502];
+        responses['/gone'] = [404];
+
+        const deliveries = await notifyListChanges('ls000000001', diff);
+        expect(deliveries.map((d) => [d.channel, d.ok, d.attempts, d.status])).toEqual([
+            ['slack', false, 1, 404],
+            ['webhook', false, 2, 502]
+        ]);
+
+        const failures = getNotificationFailures().filter((f) => f.listId === 'ls000000001');
+        expect(failures).toHaveLength(2);
+        expect(failures[0].target).toBe(new URL(baseUrl).host);
+        expect(JSON.stringify(failures)).not.toContain('/down');
+    });
+
+    test('still delivers to the other targets when one URL is malformed', async () => {
+        process.env.NOTIFY_SLACK_WEBHOOK_URLS = 'not a url,ftp://example.com/hook';
+        process.env.NOTIFY_WEBHOOK_URLS = `${baseUrl}/hook`;
+        expect(validateNotificationTargets()).toEqual([
+            'NOTIFY_SLACK_WEBHOOK_URLS[0] is not a valid http(s) URL',
+            'NOTIFY_SLACK_WEBHOOK_URLS[1] is not a valid http(s) URL'
+        ]);
+
+        const deliveries = await notifyListChanges('ls000000002', diff);
+        expect(deliveries.map((d) => [d.channel, d.ok, d.attempts])).toEqual([
+            ['slack', false, 0],
+            ['slack', false, 0],
+            ['webhook', true, 1]
+        ]);
+        expect(received.map((r) => r.path)).toEqual(['/hook']);
+        expect(getNotificationFailures().filter((f) => f.listId === 'ls000000002')).toHaveLength(2);
+    });
+
+    test('gives up on a webhook that never answers after NOTIFY_TIMEOUT_MS', async () => {
+        process.env.NOTIFY_MAX_ATTEMPTS = '2';
+        process.env.NOTIFY_TIMEOUT_MS = '50';
+        process.env.NOTIFY_WEBHOOK_URLS = `${baseUrl}/hang`;
+
+        const [delivery] = await notifyListChanges('ls000000003', diff);
+        expect(delivery).toMatchObject({ ok: false, attempts: 2, error: 'Timed out after 50ms' });
+        expect(received).toHaveLength(2);
+    });
+
+    test('only notifies tracked lists', async () => {
+        process.env.NOTIFY_WEBHOOK_URLS = `${baseUrl}/hook`;
+        process.env.NOTIFY_LISTS = 'ur12345678';
+
+        expect(await notifyListChanges('ls000000001', diff)).toEqual([]);
+        expect(await notifyListChanges('ur12345678', { added: [], removed: [] })).toEqual([]);
+        expect(received).toEqual([]);
+    });
+
+    test('splits large Discord changes into messages of 10 embeds', () => {
+        const item = { imdbId: 'tt1', title: 'Show', type: 'tvSeries' as const, imdbUrl: 'https://www.imdb.com/title/tt1/' };
+        const payloads = buildDiscordPayloads({
+            event: 'list.changed',
+            listId: 'ur12345678',
+            detectedAt: new Date().toISOString(),
+            added: Array(23).fill(item),
+            removed: []
+        }) as Array<{ embeds: unknown[] }>;
+
+        expect(payloads.map((p) => p.embeds.length)).toEqual([10, 10, 3]);
+    });
+});
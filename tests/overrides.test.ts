@@ -0,0 +1,105 @@
+import { describe, expect, test, beforeEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+    addExclusion,
+    clearOverrides,
+    deleteExclusion,
+    deleteMappingOverride,
+    findExclusion,
+    getMappingOverride,
+    listExclusions,
+    listMappingOverrides,
+    parseExclusion,
+    parseMappingOverride,
+    setMappingOverride,
+} from '../src/overrides';
+
+process.env.DATA_DIR ??= fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-overrides-'));
+
+describe('Overrides', () => {
+    beforeEach(() => {
+        clearOverrides();
+    });
+
+    describe('parseMappingOverride', () => {
+        test('accepts a TVDB ID with an optional title and note', () => {
+            const result = parseMappingOverride('tt0903747', { tvdbId: 81189, title: 'Breaking Bad', note: 'wrong on TMDB' });
+            expect('override' in result && result.override).toMatchObject({
+                imdbId: 'tt0903747',
+                tvdbId: 81189,
+                title: 'Breaking Bad',
+                note: 'wrong on TMDB',
+            });
+        });
+
+        test('rejects invalid IMDB IDs, TVDB IDs and titles', () => {
+            expect(parseMappingOverride('nope', { tvdbId: 1 })).toHaveProperty('error');
+            expect(parseMappingOverride('tt1', { tvdbId: '81189' })).toHaveProperty('error');
+            expect(parseMappingOverride('tt1', { tvdbId: 0 })).toHaveProperty('error');
+            expect(parseMappingOverride('tt1', undefined)).toHaveProperty('error');
+            expect(parseMappingOverride('tt1', { tvdbId: 1, title: 5 })).toHaveProperty('error');
+        });
+    });
+
+    describe('parseExclusion', () => {
+        test('builds the ID from the scope and target', () => {
+            const global = parseExclusion({ imdbId: 'tt0386676' });
+            const perList = parseExclusion({ tvdbId: 73244, listId: 'ls036390872' });
+
+            expect('exclusion' in global && global.exclusion.id).toBe('global:tt0386676');
+            expect('exclusion' in perList && perList.exclusion).toMatchObject({
+                id: 'ls036390872:tvdb-73244',
+                tvdbId: 73244,
+                listId: 'ls036390872',
+            });
+        });
+
+        test('requires exactly one valid target and an IMDB list ID', () => {
+            expect(parseExclusion({})).toHaveProperty('error');
+            expect(parseExclusion({ imdbId: 'tt1', tvdbId: 1 })).toHaveProperty('error');
+            expect(parseExclusion({ imdbId: '1234' })).toHaveProperty('error');
+            expect(parseExclusion({ tvdbId: -3 })).toHaveProperty('error');
+            expect(parseExclusion({ imdbId: 'tt1', listId: 'https://www.imdb.com/list/ls1/' })).toHaveProperty('error');
+            expect(parseExclusion({ imdbId: 'tt1', note: 3 })).toHaveProperty('error');
+        });
+    });
+
+    test('stores, lists and deletes mapping overrides', () => {
+        setMappingOverride({ imdbId: 'tt2', tvdbId: 200, createdAt: '2024-01-01T00:00:00.000Z' });
+        setMappingOverride({ imdbId: 'tt1', tvdbId: 100, createdAt: '2024-01-01T00:00:00.000Z' });
+        setMappingOverride({ imdbId: 'tt1', tvdbId: 101, createdAt: '2024-01-02T00:00:00.000Z' });
+
+        expect(getMappingOverride('tt1')?.tvdbId).toBe(101);
+        expect(listMappingOverrides().map((o) => o.imdbId)).toEqual(['tt1', 'tt2']);
+
+        expect(deleteMappingOverride('tt1')).toBe(true);
+        expect(deleteMappingOverride('tt1')).toBe(false);
+        expect(getMappingOverride('tt1')).toBeUndefined();
+    });
+
+    test('finds exclusions by IMDB or TVDB ID, preferring the list scope', () => {
+        const add = (body: object) => {
+            const parsed = parseExclusion(body);
+            if ('error' in parsed) throw new Error(parsed.error);
+            addExclusion(parsed.exclusion);
+        };
+        add({ imdbId: 'tt1' });
+        add({ imdbId: 'tt1', listId: 'ls1' });
+        add({ tvdbId: 300, listId: 'ls1' });
+
+        expect(findExclusion({ imdbId: 'tt1' }, 'ls1')?.id).toBe('ls1:tt1');
+        expect(findExclusion({ imdbId: 'tt1' })?.id).toBe('global:tt1');
+        expect(findExclusion({ imdbId: 'tt3', tvdbId: 300 }, 'ls1')?.id).toBe('ls1:tvdb-300');
+        expect(findExclusion({ tvdbId: 300 }, 'ls2')).toBeUndefined();
+        expect(findExclusion({ tvdbId: 300 }, ['ls2', 'ls1'])?.id).toBe('ls1:tvdb-300');
+
+        expect(listExclusions().map((e) => e.id)).toEqual(['global:tt1', 'ls1:tt1', 'ls1:tvdb-300']);
+        expect(listExclusions('ls2').map((e) => e.id)).toEqual(['global:tt1']);
+
+        expect(deleteExclusion('global:tt1')).toBe(true);
+        expect(deleteExclusion('global:tt1')).toBe(false);
+        expect(findExclusion({ imdbId: 'tt1' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test, spyOn, beforeEach, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { clearProfileOutputs, clearTvOutputs, getPrewarmStatus, getTvOutput, prewarmLists, profileOutputId, tvOutputKey } from '../src/prewarm';
+
+process.env.DATA_DIR ??= fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-prewarm-'));
+
+const series = (id: number) => [{ TvdbId: id, Title: `Show ${id}`, ImdbId: `tt${id}` }];
+
+describe('Prewarm', () => {
+    beforeEach(() => {
+        clearTvOutputs();
+    });
+
+    afterEach(() => {
+        delete process.env.TV_MAX_AGE_SECONDS;
+        delete process.env.PREWARM_LISTS;
+        mock.restore();
+    });
+
+    test('keys ignore the order of query parameters', () => {
+        expect(tvOutputKey('ls1', {})).toBe('ls1');
+        expect(tvOutputKey('ls1', { minRating: '7', genres: ['Drama', '-Reality-TV'] })).toBe(
+            tvOutputKey('ls1', { genres: ['Drama', '-Reality-TV'], minRating: '7' })
+        );
+    });
+
+    test('keys ignore query parameters that do not change the output', () => {
+        expect(tvOutputKey('ls1', { apikey: 'secret', _: '1712345678' })).toBe('ls1');
+        expect(tvOutputKey('combined', { lists: 'ls1,ls2', op: 'difference', t: '1' })).toBe(
+            'combined?lists=ls1%2Cls2&op=difference'
+        );
+    });
+
+    test('builds on a miss and serves the stored output while it is fresh', async () => {
+        const build = mock(async () => series(1));
+
+        expect(await getTvOutput('ls1', {}, build)).toMatchObject({ status: 'miss', series: series(1) });
+        expect(await getTvOutput('ls1', {}, build)).toMatchObject({ status: 'fresh', series: series(1) });
+        expect(build).toHaveBeenCalledTimes(1);
+    });
+
+    test('returns stale output at once and refreshes it in the background', async () => {
+        process.env.TV_MAX_AGE_SECONDS = '0';
+        let next = 1;
+        let finish: () => void = () => {};
+        const build = mock(async () => {
+            const id = next++;
+            if (id > 1) await new Promise<void>((resolve) => (finish = resolve));
+            return series(id);
+        });
+
+        await getTvOutput('ls1', {}, build);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+
+        const stale = await getTvOutput('ls1', {}, build);
+        expect(stale).toMatchObject({ status: 'stale', series: series(1) });
+        // A second stale request joins the refresh already running
+        await getTvOutput('ls1', {}, build);
+        expect(build).toHaveBeenCalledTimes(2);
+
+        finish();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        process.env.TV_MAX_AGE_SECONDS = '3600';
+        expect((await getTvOutput('ls1', {}, build)).series).toEqual(series(2));
+    });
+
+    test('keeps the last good output when a refresh fails', async () => {
+        process.env.PREWARM_LISTS = 'ls1, ls2';
+        spyOn(console, 'error').mockImplementation(() => {});
+
+        await prewarmLists(async (listId) => series(listId === 'ls1' ? 1 : 2));
+        await prewarmLists(async (listId) => {
+            if (listId === 'ls1') throw new Error('IMDB is down');
+            return series(3);
+        });
+
+        const build = mock(async () => series(4));
+        expect((await getTvOutput('ls1', {}, build)).series).toEqual(series(1));
+        expect((await getTvOutput('ls2', {}, build)).series).toEqual(series(3));
+        expect(build).not.toHaveBeenCalled();
+        expect(getPrewarmStatus()).toMatchObject({ lists: ['ls1', 'ls2'], entries: 2 });
+    });
+
+    test('pre-warms profiles named in PREWARM_LISTS', async () => {
+        process.env.PREWARM_LISTS = 'ls1,household';
+        const build = mock(async (listId: string) => series(listId === 'ls1' ? 1 : 2));
+
+        await prewarmLists(build);
+
+        expect(build.mock.calls.map(([listId]) => listId)).toEqual(['ls1', profileOutputId('household')]);
+        const stored = await getTvOutput(profileOutputId('household'), {}, build);
+        expect(stored).toMatchObject({ status: 'fresh', series: series(2) });
+    });
+
+    test('clearing profile outputs keeps the output of lists', async () => {
+        const build = mock(async () => series(1));
+        await getTvOutput('ls1', {}, build);
+        await getTvOutput(profileOutputId('household'), {}, build);
+
+        clearProfileOutputs();
+
+        expect((await getTvOutput('ls1', {}, build)).status).toBe('fresh');
+        expect((await getTvOutput(profileOutputId('household'), {}, build)).status).toBe('miss');
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test, spyOn, afterEach, mock } from 'bun:test';
+import * as combine from '../src/combine';
+import * as imdb from '../src/imdb';
+import type { FetchIMDBListOptions } from '../src/imdb';
+import * as tvdb from '../src/tvdb';
+import { fetchProfileItems, fetchProfileSeries } from '../src/profiles';
+import type { IMDBItem, ListProfile } from '../src/types';
+
+const profile: ListProfile = {
+    name: 'household',
+    sources: ['ur12345678', 'ls036390872'],
+    operation: 'union',
+    maxItems: 2,
+    exclude: ['tt2'],
+    filters: { includeGenres: [], excludeGenres: [], types: ['tvSeries', 'tvMiniSeries'] },
+    format: 'full'
+};
+
+describe('Profiles', () => {
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test('applies filters, exclusions and maxItems to the combined sources', async () => {
+        const combineSpy = spyOn(combine, 'fetchCombinedItems').mockImplementation(async () => ({
+            items: [
+                { imdbId: 'tt1', title: 'Show 1', type: 'tvSeries' },
+                { imdbId: 'tt2', title: 'Show 2', type: 'tvSeries' },
+                { imdbId: 'tt3', title: 'Movie 3', type: 'movie' },
+                { imdbId: 'tt4', title: 'Show 4', type: 'tvMiniSeries' },
+                { imdbId: 'tt5', title: 'Show 5', type: 'tvSeries' },
+            ],
+            sources: new Map(),
+        }));
+
+        const items = await fetchProfileItems(profile);
+
+        expect(items.map((i) => i.imdbId)).toEqual(['tt1', 'tt4']);
+        expect(combineSpy).toHaveBeenCalledWith(profile.sources, 'union', { fetchAll: true });
+    });
+
+    test('subtracts the whole second list before applying maxItems to a difference', async () => {
+        const lists: Record<string, IMDBItem[]> = {
+            ur12345678: ['tt1', 'tt2', 'tt3', 'tt4'].map((imdbId) => ({ imdbId, title: imdbId, type: 'tvSeries' })),
+            // tt1 is far down the watched list, past maxItems
+            ls036390872: ['tt7', 'tt8', 'tt9', 'tt1'].map((imdbId) => ({ imdbId, title: imdbId, type: 'tvSeries' })),
+        };
+        const fetchSpy = spyOn(imdb, 'fetchIMDBList').mockImplementation((async (listId: string, options?: FetchIMDBListOptions) =>
+            lists[listId].slice(0, options?.maxItems)) as any);
+
+        const items = await fetchProfileItems({ ...profile, operation: 'difference', exclude: [] });
+
+        expect(items.map((i) => i.imdbId)).toEqual(['tt2', 'tt3']);
+        expect(fetchSpy.mock.calls.map((call) => call[1] as FetchIMDBListOptions)).toEqual([{ fetchAll: true }, { fetchAll: true }]);
+    });
+
+    test('minimal format returns only TVDB IDs', async () => {
+        const sources = new Map([['tt1', ['ls036390872']]]);
+        spyOn(combine, 'fetchCombinedItems').mockImplementation(async () => ({
+            items: [{ imdbId: 'tt1', title: 'Show 1', type: 'tvSeries' }],
+            sources,
+        }));
+        const convertSpy = spyOn(tvdb, 'convertToSonarrFormat').mockImplementation(async () => [
+            { TvdbId: 2001, Title: 'Show 1', TmdbId: 1001, ImdbId: 'tt1' },
+        ]);
+
+        expect(await fetchProfileSeries(profile)).toEqual([
+            { TvdbId: 2001, Title: 'Show 1', TmdbId: 1001, ImdbId: 'tt1' },
+        ]);
+        // Shows are checked against the exclusions of the lists they came from
+        expect(convertSpy.mock.calls[0][1]).toBe(sources);
+        expect(await fetchProfileSeries({ ...profile, format: 'minimal' })).toEqual([{ TvdbId: 2001 }]);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test, spyOn, afterEach, mock } from 'bun:test';
+import * as tvdb from '../src/tvdb';
+import { buildResolutionReport } from '../src/report';
+
+describe('Resolution Report', () => {
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test('reports every item with its outcome and a summary', async () => {
+        spyOn(tvdb, 'resolveItems').mockImplementation(async (items: any[]) => items.map((item: any) => {
+            if (item.imdbId === 'tt1') {
+                return { item, resolution: { outcome: 'resolved', imdbId: 'tt1', tvdbId: 2001, tmdbId: 1001, title: 'Show 1', cached: false } };
+            }
+            if (item.imdbId === 'tt3') {
+                return { item, resolution: { outcome: 'no-tvdb-id', imdbId: 'tt3', tmdbId: 1003, cached: true } };
+            }
+            return { item, error: 'boom' };
+        }) as any);
+
+        const report = await buildResolutionReport([
+            { imdbId: 'tt1', title: 'Show 1', type: 'tvSeries', typeSource: 'tmdb', year: 2020 },
+            { imdbId: 'tt2', title: 'Movie 1', type: 'movie', typeSource: 'imdb', year: 2021 },
+            { imdbId: 'tt3', title: 'Show 3', type: 'tvMiniSeries' },
+            { imdbId: 'tt4', title: 'Show 4', type: 'tvSeries' },
+        ]);
+
+        expect(report.totalItems).toBe(4);
+        expect(report.summary).toEqual({ resolved: 1, filtered: 1, 'no-tvdb-id': 1, error: 1 });
+        expect(report.items).toEqual([
+            { imdbId: 'tt1', title: 'Show 1', type: 'tvSeries', typeSource: 'tmdb', year: 2020, outcome: 'resolved', tvdbId: 2001, tmdbId: 1001 },
+            { imdbId: 'tt2', title: 'Movie 1', type: 'movie', typeSource: 'imdb', year: 2021, outcome: 'filtered' },
+            { imdbId: 'tt3', title: 'Show 3', type: 'tvMiniSeries', year: undefined, outcome: 'no-tvdb-id', tmdbId: 1003 },
+            { imdbId: 'tt4', title: 'Show 4', type: 'tvSeries', year: undefined, outcome: 'error', error: 'boom' },
+        ]);
+    });
+
+    test('marks entries resolved by title search as fuzzy', async () => {
+        spyOn(tvdb, 'resolveItems').mockImplementation(async (items: any[]) => items.map((item: any) => ({
+            item,
+            resolution: { outcome: 'resolved', imdbId: item.imdbId, tvdbId: 2001, tmdbId: 1001, title: 'Show 1', cached: false, provider: 'tmdb-search', match: 'fuzzy', confidence: 0.91 },
+        })) as any);
+
+        const report = await buildResolutionReport([{ imdbId: 'tt1', title: 'Show 1', type: 'tvSeries', year: 2020 }]);
+        expect(report.items[0]).toMatchObject({ outcome: 'resolved', provider: 'tmdb-search', match: 'fuzzy', confidence: 0.91 });
+    });
+
+    test('only sends TV items to the resolver', async () => {
+        const resolveSpy = spyOn(tvdb, 'resolveItems').mockImplementation(async () => []);
+
+        await buildResolutionReport([
+            { imdbId: 'tt1', title: 'Show 1', type: 'tvSeries' },
+            { imdbId: 'tt2', title: 'Movie 1', type: 'movie' },
+            { imdbId: 'tt3', title: 'Mystery', type: 'unknown' },
+        ]);
+
+        expect(resolveSpy).toHaveBeenCalledTimes(1);
+        expect(resolveSpy.mock.calls[0][0].map((i) => i.imdbId)).toEqual(['tt1']);
+    });
+
+    test('reports excluded items with the exclusion that matched', async () => {
+        const exclusion = { id: 'ls1:tvdb-2002', tvdbId: 2002, listId: 'ls1', createdAt: '2024-01-01T00:00:00.000Z' };
+        const resolveItems = spyOn(tvdb, 'resolveItems').mockImplementation(async (items: any[]) => [
+            { item: items[0], excluded: { id: 'global:tt1', imdbId: 'tt1', createdAt: exclusion.createdAt } },
+            {
+                item: items[1],
+                resolution: { outcome: 'resolved', imdbId: 'tt2', tvdbId: 2002, title: 'Show 2', cached: false, provider: 'override' },
+                excluded: exclusion,
+            },
+        ] as any);
+
+        const report = await buildResolutionReport([
+            { imdbId: 'tt1', title: 'Show 1', type: 'tvSeries' },
+            { imdbId: 'tt2', title: 'Show 2', type: 'tvSeries' },
+        ], 'ls1');
+
+        expect(resolveItems.mock.calls[0][1]).toBe('ls1');
+        expect(report.summary).toEqual({ excluded: 2 });
+        expect(report.items[0]).toMatchObject({ outcome: 'excluded', exclusionId: 'global:tt1' });
+        expect(report.items[1]).toMatchObject({
+            outcome: 'excluded',
+            exclusionId: 'ls1:tvdb-2002',
+            tvdbId: 2002,
+            provider: 'override',
+        });
+    });
+});
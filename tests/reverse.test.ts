@@ -0,0 +1,75 @@
+import { describe, expect, test, spyOn, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
+import * as imdb from '../src/imdb';
+import * as tvdb from '../src/tvdb';
+import { findMissingFromList, toImdbImportCsv } from '../src/reverse';
+import { startMockSonarr, type MockSonarr } from './mock-sonarr';
+
+describe('Reverse sync', () => {
+    let sonarr: MockSonarr;
+
+    beforeAll(async () => {
+        sonarr = await startMockSonarr();
+        process.env.SONARR_URL = sonarr.url;
+        process.env.SONARR_API_KEY = sonarr.apiKey;
+    });
+
+    afterAll(async () => {
+        delete process.env.SONARR_URL;
+        delete process.env.SONARR_API_KEY;
+        await sonarr.close();
+    });
+
+    beforeEach(() => {
+        sonarr.series = [
+            { id: 1, title: 'On The List', tvdbId: 10, imdbId: 'tt10', year: 2010 },
+            { id: 2, title: 'Missing, "Quoted"', tvdbId: 20, year: 2020 },
+            { id: 3, title: 'Only Sonarr Knows', tvdbId: 30, imdbId: 'tt30' },
+            { id: 4, title: 'Nobody Knows', tvdbId: 40 },
+            { id: 5, title: 'Stale Sonarr ID', tvdbId: 50, imdbId: 'tt5000' }
+        ];
+
+        spyOn(imdb, 'fetchIMDBList').mockImplementation((async () => [
+            { imdbId: 'tt10', title: 'On The List', type: 'tvSeries' },
+            { imdbId: 'tt50', title: 'Stale Sonarr ID', type: 'tvSeries' }
+        ]) as any);
+        spyOn(tvdb, 'resolveTVDBToIMDB').mockImplementation(async (tvdbId: number) =>
+            ({ 20: 'tt20', 50: 'tt50' } as Record<number, string>)[tvdbId] ?? null
+        );
+    });
+
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test('reports Sonarr series missing from the list', async () => {
+        const report = await findMissingFromList('ls036390872');
+
+        expect(report.librarySize).toBe(5);
+        expect(report.onList).toBe(2);
+        expect(report.missing).toEqual([
+            { tvdbId: 20, title: 'Missing, "Quoted"', year: 2020, imdbId: 'tt20', imdbSource: 'tmdb' },
+            { tvdbId: 30, title: 'Only Sonarr Knows', year: undefined, imdbId: 'tt30', imdbSource: 'sonarr' }
+        ]);
+        expect(report.unresolved).toEqual([{ tvdbId: 40, title: 'Nobody Knows' }]);
+    });
+
+    test('does not look up series whose Sonarr IMDB ID is already on the list', async () => {
+        const resolveSpy = spyOn(tvdb, 'resolveTVDBToIMDB').mockImplementation(async () => null);
+        await findMissingFromList('ls036390872');
+
+        expect(resolveSpy.mock.calls.map((call) => call[0])).toEqual([20, 30, 40, 50]);
+    });
+
+    test('formats missing series as an IMDB import CSV', () => {
+        const csv = toImdbImportCsv([
+            { tvdbId: 20, title: 'Missing, "Quoted"', year: 2020, imdbId: 'tt20', imdbSource: 'tmdb' },
+            { tvdbId: 30, title: 'Only Sonarr Knows', imdbId: 'tt30', imdbSource: 'sonarr' }
+        ]);
+
+        expect(csv).toBe(
+            'Const,Title,Year,Description\r\n' +
+            'tt20,"Missing, ""Quoted""",2020,In Sonarr (TVDB 20)\r\n' +
+            'tt30,Only Sonarr Knows,,In Sonarr (TVDB 30)\r\n'
+        );
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { createSingleFlight, getSingleFlightStats } from '../src/singleflight';
+
+describe('Single Flight', () => {
+    test('concurrent calls with the same key share one promise', async () => {
+        const flights = createSingleFlight<number>('test-shared');
+        let calls = 0;
+        const work = async () => {
+            calls++;
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            return calls;
+        };
+
+        const results = await Promise.all([flights.run('a', work), flights.run('a', work), flights.run('b', work)]);
+        expect(results).toEqual([2, 2, 2]);
+        expect(calls).toBe(2);
+        expect(getSingleFlightStats()['test-shared']).toEqual({ started: 2, joined: 1, inFlight: 0 });
+
+        // Settled calls aren't reused
+        await flights.run('a', work);
+        expect(calls).toBe(3);
+    });
+
+    test('joined callers get the same error and the key is freed', async () => {
+        const flights = createSingleFlight<number>('test-errors');
+        const failing = async () => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            throw new Error('boom');
+        };
+
+        const results = await Promise.allSettled([flights.run('a', failing), flights.run('a', failing)]);
+        expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+        expect(flights.stats()).toEqual({ started: 1, joined: 1, inFlight: 0 });
+        expect(await flights.run('a', async () => 1)).toBe(1);
+    });
+});
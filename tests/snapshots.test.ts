@@ -0,0 +1,101 @@
+import { describe, expect, test, afterEach, spyOn } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { recordSnapshot, getSnapshots, getListChanges, pruneSnapshots, parseSince } from '../src/snapshots';
+import type { IMDBItem } from '../src/types';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-snapshots-'));
+
+const DAY = 86400 * 1000;
+const start = Date.parse('2024-05-01T00:00:00Z');
+
+function items(...ids: number[]): IMDBItem[] {
+    return ids.map((n) => ({
+        imdbId: `tt${n}`,
+        title: `Title ${n}`,
+        type: n % 2 === 0 ? 'movie' : 'tvSeries',
+        year: 2000 + n
+    }));
+}
+
+describe('Snapshots', () => {
+    afterEach(() => {
+        delete process.env.SNAPSHOT_RETENTION_DAYS;
+    });
+
+    test('stores a snapshot only when the list changed', () => {
+        expect(recordSnapshot('ls000000001', items(1, 2), start)).toBeNull();
+        expect(recordSnapshot('ls000000001', items(1, 2), start + DAY)).toBeNull();
+        expect(recordSnapshot('ls000000001', items(1, 3), start + 2 * DAY)).toEqual({
+            added: [{ imdbId: 'tt3', title: 'Title 3', type: 'tvSeries', year: 2003 }],
+            removed: [{ imdbId: 'tt2', title: 'Title 2', type: 'movie', year: 2002 }]
+        });
+
+        const snapshots = getSnapshots('ls000000001');
+        expect(snapshots.map((s) => s.takenAt)).toEqual([start, start + 2 * DAY]);
+        expect(snapshots[1].items[1]).toEqual({ imdbId: 'tt3', title: 'Title 3', type: 'tvSeries', year: 2003 });
+    });
+
+    test('does not store an empty fetch after a non-empty snapshot', () => {
+        const warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+        recordSnapshot('ls000000005', items(1, 2), start);
+
+        expect(recordSnapshot('ls000000005', [], start + DAY)).toBeNull();
+        expect(getSnapshots('ls000000005').map((s) => s.items.length)).toEqual([2]);
+        expect(getListChanges('ls000000005', start).removed).toEqual([]);
+        expect(recordSnapshot('ls000000005', items(1, 2), start + 2 * DAY)).toBeNull();
+        expect(warnSpy).toHaveBeenCalled();
+        warnSpy.mockRestore();
+    });
+
+    test('reports added and removed items with titles, types and when they changed', () => {
+        recordSnapshot('ls000000002', items(1, 2, 3), start);
+        recordSnapshot('ls000000002', items(1, 3, 4), start + DAY);
+        recordSnapshot('ls000000002', items(1, 4, 5, 6), start + 3 * DAY);
+        recordSnapshot('ls000000002', items(1, 4, 5), start + 4 * DAY);
+
+        const all = getListChanges('ls000000002');
+        expect(all.from).toBe('2024-05-01T00:00:00.000Z');
+        expect(all.to).toBe('2024-05-05T00:00:00.000Z');
+        expect(all.snapshots).toBe(4);
+        expect(all.added).toEqual([
+            { imdbId: 'tt4', title: 'Title 4', type: 'movie', year: 2004, changedAt: '2024-05-02T00:00:00.000Z' },
+            { imdbId: 'tt5', title: 'Title 5', type: 'tvSeries', year: 2005, changedAt: '2024-05-04T00:00:00.000Z' }
+        ]);
+        expect(all.removed.map((c) => [c.imdbId, c.changedAt])).toEqual([
+            ['tt2', '2024-05-02T00:00:00.000Z'],
+            ['tt3', '2024-05-04T00:00:00.000Z']
+        ]);
+
+        const recent = getListChanges('ls000000002', start + 2 * DAY);
+        expect(recent.from).toBe('2024-05-02T00:00:00.000Z');
+        expect(recent.added.map((c) => c.imdbId)).toEqual(['tt5']);
+        expect(recent.removed.map((c) => c.imdbId)).toEqual(['tt3']);
+    });
+
+    test('returns no changes for a list without snapshots', () => {
+        expect(getListChanges('ls000000099')).toMatchObject({ from: null, to: null, snapshots: 0, added: [], removed: [] });
+    });
+
+    test('prunes snapshots past retention but keeps the latest per list', () => {
+        process.env.SNAPSHOT_RETENTION_DAYS = '7';
+        recordSnapshot('ls000000003', items(1), start);
+        recordSnapshot('ls000000003', items(1, 2), start + DAY);
+        recordSnapshot('ls000000004', items(1), start);
+
+        expect(pruneSnapshots(start + 30 * DAY)).toBeGreaterThanOrEqual(1);
+        expect(getSnapshots('ls000000003').map((s) => s.takenAt)).toEqual([start + DAY]);
+        expect(getSnapshots('ls000000004').map((s) => s.takenAt)).toEqual([start]);
+    });
+
+    test('parses since as a date or a duration', () => {
+        const now = start + 10 * DAY;
+        expect(parseSince(undefined)).toEqual({});
+        expect(parseSince('2024-05-01', now)).toEqual({ since: start });
+        expect(parseSince('7d', now)).toEqual({ since: now - 7 * DAY });
+        expect(parseSince('24h', now)).toEqual({ since: now - DAY });
+        expect(parseSince('2w', now)).toEqual({ since: now - 14 * DAY });
+        expect(parseSince('last week', now)).toHaveProperty('error');
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test, spyOn, beforeAll, afterAll, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createFileStore } from '../src/store';
+
+describe('File Store', () => {
+    let dataDir: string;
+    const originalDataDir = process.env.DATA_DIR;
+
+    beforeAll(() => {
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-store-'));
+        process.env.DATA_DIR = dataDir;
+    });
+
+    afterAll(() => {
+        process.env.DATA_DIR = originalDataDir;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    test('does not touch the disk until first access', () => {
+        const store = createFileStore<number>('lazy');
+        expect(store.isLoaded()).toBe(false);
+        expect(fs.existsSync(path.join(dataDir, 'lazy.jsonl'))).toBe(false);
+
+        expect(store.get('missing')).toBeUndefined();
+        expect(store.isLoaded()).toBe(true);
+    });
+
+    test('persists values across store instances', () => {
+        const first = createFileStore<{ id: number }>('persist');
+        first.set('a', { id: 1 });
+        first.set('b', { id: 2 });
+        first.set('a', { id: 3 });
+        first.delete('b');
+
+        const second = createFileStore<{ id: number }>('persist');
+        expect(second.get('a')).toEqual({ id: 3 });
+        expect(second.has('b')).toBe(false);
+        expect(second.size()).toBe(1);
+    });
+
+    test('skips corrupt lines when loading', () => {
+        fs.writeFileSync(
+            path.join(dataDir, 'corrupt.jsonl'),
+            '{"k":"a","v":1}\n{"k":"b","v":\n{"k":"c","v":3}\n'
+        );
+
+        const store = createFileStore<number>('corrupt');
+        expect(store.keys().sort()).toEqual(['a', 'c']);
+    });
+
+    test('compacts a running store once overwrites pile up', () => {
+        const store = createFileStore<number>('busy');
+        spyOn(console, 'log').mockImplementation(() => {});
+        for (let i = 0; i <= 1001; i++) {
+            store.set('a', i);
+        }
+        mock.restore();
+
+        const lines = fs.readFileSync(store.path, 'utf8').trim().split('\n');
+        expect(lines.length).toBeLessThan(10);
+        expect(createFileStore<number>('busy').get('a')).toBe(1001);
+    });
+
+    test('compacts a store of large values before the record threshold', () => {
+        const store = createFileStore<string>('large');
+        spyOn(console, 'log').mockImplementation(() => {});
+        const value = 'x'.repeat(1024 * 1024);
+        for (let i = 0; i < 10; i++) {
+            store.set('a', value);
+        }
+        mock.restore();
+
+        const lines = fs.readFileSync(store.path, 'utf8').trim().split('\n');
+        expect(lines.length).toBeLessThan(10);
+        expect(createFileStore<string>('large').get('a')).toBe(value);
+    });
+
+    test('clear empties the backing file', () => {
+        const store = createFileStore<number>('cleared');
+        store.set('a', 1);
+        store.clear();
+
+        expect(store.size()).toBe(0);
+        expect(createFileStore<number>('cleared').size()).toBe(0);
+    });
+});
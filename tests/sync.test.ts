@@ -0,0 +1,161 @@
+import { describe, expect, test, spyOn, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import * as config from '../src/config';
+import * as profiles from '../src/profiles';
+import * as tvdb from '../src/tvdb';
+import { syncProfile, getSyncRecords, planSync } from '../src/sync';
+import type { ListProfile, SonarrSeries } from '../src/types';
+import { startMockSonarr, type MockSonarr } from './mock-sonarr';
+
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-sync-'));
+
+const profile: ListProfile = {
+    name: 'household',
+    sources: ['ur12345678'],
+    operation: 'union',
+    exclude: [],
+    filters: { includeGenres: [], excludeGenres: [], types: ['tvSeries', 'tvMiniSeries'] },
+    format: 'full',
+    sonarr: {
+        qualityProfileId: 4,
+        rootFolderPath: '/tv',
+        monitor: 'pilot',
+        seasonFolder: true,
+        seriesType: 'standard',
+        tags: ['imdb', 'Household'],
+        searchForMissingEpisodes: false
+    }
+};
+
+describe('Sonarr Sync', () => {
+    let sonarr: MockSonarr;
+
+    beforeAll(async () => {
+        sonarr = await startMockSonarr();
+        process.env.SONARR_URL = sonarr.url + '/';
+        process.env.SONARR_API_KEY = sonarr.apiKey;
+    });
+
+    afterAll(async () => {
+        delete process.env.SONARR_URL;
+        delete process.env.SONARR_API_KEY;
+        await sonarr.close();
+    });
+
+    beforeEach(() => {
+        sonarr.series = [{ id: 100, title: 'Already There', tvdbId: 3003, tags: [] }];
+        sonarr.tags = [{ id: 1, label: 'imdb' }];
+        sonarr.requests = [];
+        sonarr.lookup.clear();
+        sonarr.lookup.set(2001, { title: 'New Show', tvdbId: 2001, titleSlug: 'new-show', seasons: [] });
+
+        spyOn(profiles, 'fetchProfile').mockImplementation(async () => ({
+            items: [
+                { imdbId: 'tt1', title: 'New Show', type: 'tvSeries' },
+                { imdbId: 'tt2', title: 'Already There', type: 'tvSeries' },
+                { imdbId: 'tt3', title: 'Unknown To Sonarr', type: 'tvSeries' },
+            ],
+            sources: new Map(),
+        }));
+        spyOn(tvdb, 'convertToSonarrFormat').mockImplementation(async () => [
+            { TvdbId: 2001, Title: 'New Show', ImdbId: 'tt1' },
+            { TvdbId: 3003, Title: 'Already There', ImdbId: 'tt2' },
+            { TvdbId: 4004, Title: 'Unknown To Sonarr', ImdbId: 'tt3' },
+        ]);
+    });
+
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test('adds missing series with the profile options and skips existing ones', async () => {
+        const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+        const result = await syncProfile(profile);
+
+        expect(result.added).toEqual([{ tvdbId: 2001, title: 'New Show', imdbId: 'tt1', sonarrId: 1 }]);
+        expect(result.existing).toEqual([{ tvdbId: 3003, title: 'Already There', imdbId: 'tt2', sonarrId: 100 }]);
+        expect(result.failed).toEqual([
+            { tvdbId: 4004, title: 'Unknown To Sonarr', imdbId: 'tt3', error: 'Not found by Sonarr series lookup' }
+        ]);
+
+        const addRequest = sonarr.requests.find((r) => r.method === 'POST' && r.path === '/api/v3/series');
+        expect(addRequest?.body).toMatchObject({
+            tvdbId: 2001,
+            qualityProfileId: 4,
+            rootFolderPath: '/tv',
+            seasonFolder: true,
+            monitored: true,
+            tags: [1, 2],
+            addOptions: { monitor: 'pilot', searchForMissingEpisodes: false }
+        });
+        expect(sonarr.tags).toEqual([{ id: 1, label: 'imdb' }, { id: 2, label: 'household' }]);
+        errorSpy.mockRestore();
+    });
+
+    test('records which profile added each series', async () => {
+        spyOn(console, 'error').mockImplementation(() => {});
+        await syncProfile(profile);
+
+        const records = getSyncRecords('household');
+        expect(records.map((r) => r.tvdbId)).toContain(2001);
+        expect(getSyncRecords('other')).toEqual([]);
+    });
+
+    test('plans a sync without writing to Sonarr', async () => {
+        const plan = await planSync(profile);
+
+        expect(plan.profile).toBe('household');
+        expect(plan.toAdd.map((e) => e.tvdbId)).toEqual([2001, 4004]);
+        expect(plan.present).toEqual([{ tvdbId: 3003, title: 'Already There', imdbId: 'tt2', sonarrId: 100 }]);
+        expect(plan.removed).toEqual([]);
+        expect(sonarr.requests.every((r) => r.method === 'GET')).toBe(true);
+    });
+
+    test('lists synced series that have left the profile as removed', async () => {
+        spyOn(console, 'error').mockImplementation(() => {});
+        await syncProfile(profile);
+
+        const remaining: SonarrSeries[] = [{ TvdbId: 3003, Title: 'Already There', ImdbId: 'tt2' }];
+        spyOn(tvdb, 'convertToSonarrFormat').mockImplementation(async () => remaining);
+        sonarr.requests = [];
+
+        const plan = await planSync(profile);
+        expect(plan.toAdd).toEqual([]);
+        expect(plan.removed).toEqual([
+            { tvdbId: 2001, title: 'New Show', imdbId: 'tt1', sonarrId: sonarr.series[1].id }
+        ]);
+        expect(sonarr.requests.every((r) => r.method === 'GET')).toBe(true);
+    });
+
+    test('lists series synced from a bare list ID by the profiles that sync it', async () => {
+        spyOn(console, 'error').mockImplementation(() => {});
+        const mixed: ListProfile = { ...profile, name: 'mixed', sources: ['ur12345678', 'ls1'] };
+        await syncProfile(profile);
+        sonarr.series = sonarr.series.filter((s) => s.tvdbId !== 2001);
+        await syncProfile(mixed);
+        expect(getSyncRecords('mixed').map((r) => r.tvdbId)).toEqual([2001]);
+
+        spyOn(tvdb, 'convertToSonarrFormat').mockImplementation(async () => []);
+        spyOn(config, 'getProfile').mockReturnValue(undefined);
+        const configured = { household: profile, mixed };
+        spyOn(config, 'getConfig').mockReturnValue({ profiles: configured } as any);
+
+        const plan = await planSync(profiles.profileForList('ur12345678'));
+        expect(plan.removed.map((e) => e.tvdbId)).toEqual([2001]);
+
+        // A multi-source profile only counts for series the list's snapshots show were on it
+        spyOn(config, 'getConfig').mockReturnValue({ profiles: { mixed: configured.mixed } } as any);
+        expect((await planSync(profiles.profileForList('ur12345678'))).removed).toEqual([]);
+    });
+
+    test('fails clearly on a Sonarr auth error', async () => {
+        process.env.SONARR_API_KEY = 'wrong';
+        try {
+            await expect(syncProfile(profile)).rejects.toThrow('Sonarr GET /series failed: 401');
+        } finally {
+            process.env.SONARR_API_KEY = sonarr.apiKey;
+        }
+    });
+});
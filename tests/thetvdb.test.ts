@@ -0,0 +1,80 @@
+import { describe, expect, test, spyOn, beforeEach, afterEach, mock } from 'bun:test';
+import { findSeriesByIMDBId, resetTVDBToken } from '../src/thetvdb';
+import { fetchMock } from './mock-fetch';
+
+describe('TheTVDB Client', () => {
+    beforeEach(() => {
+        process.env.TVDB_API_KEY = 'tvdb_key';
+        resetTVDBToken();
+    });
+
+    afterEach(() => {
+        delete process.env.TVDB_API_KEY;
+        delete process.env.TVDB_PIN;
+        mock.restore();
+    });
+
+    function mockTheTVDB(tokens: string[], rejected: string[] = []) {
+        return spyOn(global, 'fetch').mockImplementation(fetchMock(async (url, init) => {
+            if (url.toString().endsWith('/login')) {
+                return new Response(JSON.stringify({ status: 'success', data: { token: tokens.shift() } }));
+            }
+            const auth = new Headers(init?.headers).get('Authorization') || '';
+            if (rejected.some((token) => auth === `Bearer ${token}`)) {
+                return new Response(null, { status: 401 });
+            }
+            return new Response(JSON.stringify({
+                status: 'success',
+                data: [
+                    { episode: { id: 9, seriesId: 81189 } },
+                    { series: { id: 81189, name: 'Breaking Bad', year: '2008' } },
+                ],
+            }));
+        }));
+    }
+
+    test('logs in once and finds a series by IMDB ID', async () => {
+        const mockFetch = mockTheTVDB(['token-1']);
+        process.env.TVDB_PIN = '1234';
+
+        expect(await findSeriesByIMDBId('tt0903747')).toEqual({ outcome: 'resolved', tvdbId: 81189, title: 'Breaking Bad' });
+        expect(await findSeriesByIMDBId('tt0903747')).toMatchObject({ tvdbId: 81189 });
+
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        expect(JSON.parse(String(mockFetch.mock.calls[0][1]?.body))).toEqual({ apikey: 'tvdb_key', pin: '1234' });
+        expect(mockFetch.mock.calls[1][0].toString()).toBe('https://api4.thetvdb.com/v4/search/remoteid/tt0903747');
+    });
+
+    test('logs in again when the token is rejected', async () => {
+        const mockFetch = mockTheTVDB(['expired', 'token-2'], ['expired']);
+
+        const result = await findSeriesByIMDBId('tt0903747');
+        expect(result.outcome).toBe('resolved');
+        expect(mockFetch.mock.calls.map(([url]) => url.toString().split('/v4')[1])).toEqual([
+            '/login',
+            '/search/remoteid/tt0903747',
+            '/login',
+            '/search/remoteid/tt0903747',
+        ]);
+    });
+
+    test('reports not-found when only episodes match and errors otherwise', async () => {
+        spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+            if (url.toString().endsWith('/login')) {
+                return new Response(JSON.stringify({ status: 'success', data: { token: 't' } }));
+            }
+            if (url.toString().includes('tt1')) {
+                return new Response(JSON.stringify({ status: 'success', data: [{ episode: { id: 9, seriesId: 1 } }] }));
+            }
+            if (url.toString().includes('tt2')) {
+                return new Response(null, { status: 404 });
+            }
+            return new Response(null, { status: 500 });
+        }));
+        spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await findSeriesByIMDBId('tt1')).toEqual({ outcome: 'not-found' });
+        expect(await findSeriesByIMDBId('tt2')).toEqual({ outcome: 'not-found' });
+        expect(await findSeriesByIMDBId('tt3')).toEqual({ outcome: 'http-error', httpStatus: 500 });
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test, spyOn, beforeEach, afterEach, mock } from 'bun:test';
+import { renderMetrics, resetMetrics } from '../src/metrics';
+import { getTMDBClientStats, mapWithConcurrency, parseRetryAfter, resetTMDBClient, tmdbGet } from '../src/tmdb';
+import { fetchMock } from './mock-fetch';
+
+describe('TMDB Client', () => {
+    beforeEach(() => {
+        process.env.TMDB_API_KEY = 'test_api_key';
+        process.env.TMDB_RETRY_DELAY_MS = '0';
+        resetTMDBClient();
+        spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        delete process.env.TMDB_RATE_LIMIT;
+        delete process.env.TMDB_TIMEOUT_MS;
+        delete process.env.TMDB_MAX_RETRIES;
+        mock.restore();
+    });
+
+    test('builds the URL with the API key and parameters', async () => {
+        const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => new Response(JSON.stringify({ id: 1 }))));
+
+        expect(await tmdbGet('/tv/1/external_ids', { language: 'en US' })).toEqual({ ok: true, data: { id: 1 } });
+        expect(mockFetch.mock.calls[0][0]).toBe('https://api.themoviedb.org/3/tv/1/external_ids?api_key=test_api_key&language=en+US');
+    });
+
+    test('retries 5xx responses and network errors until one succeeds', async () => {
+        const responses = [
+            () => new Response(null, { status: 502 }),
+            () => { throw new Error('socket hang up'); },
+            () => new Response(JSON.stringify({ id: 1 })),
+        ];
+        const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => responses.shift()!()));
+
+        expect(await tmdbGet('/tv/1')).toEqual({ ok: true, data: { id: 1 } });
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        expect(getTMDBClientStats()).toMatchObject({ requests: 3, retries: 2 });
+    });
+
+    test('counts every attempt by endpoint and status in the metrics', async () => {
+        resetMetrics();
+        const responses = [
+            () => new Response(null, { status: 502 }),
+            () => { throw new Error('socket hang up'); },
+            () => new Response(JSON.stringify({ id: 1 })),
+        ];
+        spyOn(global, 'fetch').mockImplementation(fetchMock(async () => responses.shift()!()));
+
+        await tmdbGet('/find/tt0903747', { external_source: 'imdb_id' });
+
+        const text = renderMetrics();
+        expect(text).toContain('imdbarr_tmdb_requests_total{endpoint="/find/{id}",status="502"} 1');
+        expect(text).toContain('imdbarr_tmdb_requests_total{endpoint="/find/{id}",status="network-error"} 1');
+        expect(text).toContain('imdbarr_tmdb_requests_total{endpoint="/find/{id}",status="200"} 1');
+    });
+
+    test('gives up after the configured retries', async () => {
+        process.env.TMDB_MAX_RETRIES = '1';
+        const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => new Response(null, { status: 503 })));
+
+        expect(await tmdbGet('/tv/1')).toEqual({ ok: false, reason: 'http-error', status: 503 });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not retry other client errors', async () => {
+        const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => new Response(null, { status: 404 })));
+
+        expect(await tmdbGet('/tv/1')).toEqual({ ok: false, reason: 'http-error', status: 404 });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('waits for Retry-After on 429', async () => {
+        const responses = [
+            () => new Response(null, { status: 429, headers: { 'Retry-After': '0.2' } }),
+            () => new Response(JSON.stringify({ id: 1 })),
+        ];
+        spyOn(global, 'fetch').mockImplementation(fetchMock(async () => responses.shift()!()));
+
+        const started = Date.now();
+        expect((await tmdbGet('/tv/1')).ok).toBe(true);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+        expect(getTMDBClientStats().rateLimited).toBe(1);
+    });
+
+    test('caps long Retry-After pauses at three request timeouts', async () => {
+        process.env.TMDB_TIMEOUT_MS = '20';
+        const responses = [
+            () => new Response(null, { status: 429, headers: { 'Retry-After': '3600' } }),
+            () => new Response(JSON.stringify({ id: 1 })),
+        ];
+        spyOn(global, 'fetch').mockImplementation(fetchMock(async () => responses.shift()!()));
+
+        const started = Date.now();
+        expect((await tmdbGet('/tv/1')).ok).toBe(true);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    test('aborts requests that take longer than the timeout', async () => {
+        process.env.TMDB_TIMEOUT_MS = '20';
+        process.env.TMDB_MAX_RETRIES = '0';
+        spyOn(global, 'fetch').mockImplementation(fetchMock((_url, init) => new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })));
+
+        expect(await tmdbGet('/tv/1')).toEqual({ ok: false, reason: 'network-error' });
+        expect(getTMDBClientStats().timeouts).toBe(1);
+    });
+
+    test('spreads requests over time once the bucket is empty', async () => {
+        process.env.TMDB_RATE_LIMIT = '20';
+        spyOn(global, 'fetch').mockImplementation(fetchMock(async () => new Response('{}')));
+
+        const started = Date.now();
+        await Promise.all(Array.from({ length: 25 }, () => tmdbGet('/tv/1')));
+        // 20 requests fit in the bucket, the other 5 wait 50ms each
+        expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+    });
+
+    test('parses Retry-After seconds and dates', () => {
+        expect(parseRetryAfter('3')).toBe(3000);
+        expect(parseRetryAfter(null)).toBeUndefined();
+        expect(parseRetryAfter('soon')).toBeUndefined();
+        const date = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())!;
+        expect(date).toBeGreaterThan(8000);
+        expect(date).toBeLessThanOrEqual(10000);
+    });
+
+    test('maps with limited concurrency and keeps the order', async () => {
+        let running = 0;
+        let peak = 0;
+        const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n) => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, n * 5));
+            running--;
+            return n * 10;
+        });
+
+        expect(results).toEqual([50, 10, 40, 20, 30]);
+        expect(peak).toBe(2);
+    });
+});
@@ -1,8 +1,16 @@
 import { describe, expect, test, spyOn, beforeEach, afterEach, mock } from 'bun:test';
-import { resolveIMDBToTVDB, convertToSonarrFormat, clearCache } from '../src/tvdb';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { resetTVDBToken } from '../src/thetvdb';
+import { addExclusion, clearOverrides, setMappingOverride } from '../src/overrides';
+import { resolveIMDBToTVDB, resolveSeries, getResolverChain, isResolverConfigured, resolveTVDBToIMDB, convertToSonarrFormat, resolveIMDBToTMDBMovie, convertToRadarrFormat, clearCache, getCacheStats, classifyUnknownItems, applyCachedClassifications } from '../src/tvdb';
+import { fetchMock } from './mock-fetch';
 
 // Mock environment variables
 process.env.TMDB_API_KEY = 'test_api_key';
+process.env.TMDB_RETRY_DELAY_MS = '0';
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'imdbarr-tvdb-'));
 
 describe('TVDB Utils', () => {
     beforeEach(() => {
@@ -12,7 +20,7 @@ describe('TVDB Utils', () => {
 
     describe('resolveIMDBToTVDB', () => {
         test('resolves IMDB ID to TVDB ID via TMDB', async () => {
-            const mockFetch = spyOn(global, 'fetch').mockImplementation(async (url) => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
                 if (url.toString().includes('/find/')) {
                     return new Response(JSON.stringify({
                         tv_results: [{ id: 1001, name: 'Test Show' }]
@@ -25,7 +33,7 @@ describe('TVDB Utils', () => {
                     }));
                 }
                 return new Response(null, { status: 404 });
-            });
+            }));
 
             const result = await resolveIMDBToTVDB('tt1234567');
 
@@ -38,22 +46,240 @@ describe('TVDB Utils', () => {
         });
 
         test('returns null if not found on TMDB', async () => {
-            spyOn(global, 'fetch').mockImplementation(async () => {
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async () => {
                 return new Response(JSON.stringify({
                     tv_results: []
                 }));
-            });
+            }));
 
             const result = await resolveIMDBToTVDB('tt1234567');
             expect(result).toBeNull();
         });
+
+        test('persists resolved series to the on-disk store', async () => {
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('/find/')) {
+                    return new Response(JSON.stringify({
+                        tv_results: [{ id: 1001, name: 'Test Show' }]
+                    }));
+                }
+                return new Response(JSON.stringify({ tvdb_id: 2001, id: 1001 }));
+            }));
+
+            await resolveIMDBToTVDB('tt1234567');
+
+            const stats = getCacheStats();
+            expect(stats.disk.entries).toBe(1);
+
+            const lines = fs.readFileSync(stats.disk.path, 'utf8').trim().split('\n');
+            const record = JSON.parse(lines[lines.length - 1]);
+            expect(record.k).toBe('tt1234567');
+            expect(record.v.tvdbId).toBe(2001);
+            expect(typeof record.v.resolvedAt).toBe('number');
+        });
+    });
+
+    describe('resolveSeries', () => {
+        test('caches not-found results and reports the reason', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => {
+                return new Response(JSON.stringify({ tv_results: [] }));
+            }));
+
+            const first = await resolveSeries('tt1234567');
+            expect(first).toEqual({ outcome: 'not-found', imdbId: 'tt1234567', cached: false });
+
+            const second = await resolveSeries('tt1234567');
+            expect(second.outcome).toBe('not-found');
+            expect(second.cached).toBe(true);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(getCacheStats().negative.byReason).toEqual({ 'not-found': 1 });
+        });
+
+        test('shares one lookup between concurrent calls for the same IMDB ID', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('/find/')) {
+                    return new Response(JSON.stringify({ tv_results: [{ id: 1001, name: 'Test Show' }] }));
+                }
+                return new Response(JSON.stringify({ tvdb_id: 2001, id: 1001 }));
+            }));
+
+            const results = await Promise.all([
+                resolveSeries('tt1234567'),
+                resolveSeries('tt1234567'),
+                resolveIMDBToTVDB('tt1234567'),
+            ]);
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(results[1]).toEqual(results[0]);
+            expect(results[2]).toEqual({ tvdbId: 2001, tmdbId: 1001, title: 'Test Show' });
+        });
+
+        test('reports no-tvdb-id with the TMDB ID that was found', async () => {
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('/find/')) {
+                    return new Response(JSON.stringify({
+                        tv_results: [{ id: 1001, name: 'Test Show' }]
+                    }));
+                }
+                return new Response(JSON.stringify({ id: 1001 }));
+            }));
+
+            const result = await resolveSeries('tt1234567');
+            expect(result).toEqual({ outcome: 'no-tvdb-id', imdbId: 'tt1234567', tmdbId: 1001, cached: false });
+        });
+
+        test('does not cache transient failures', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => {
+                return new Response(null, { status: 503 });
+            }));
+            const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+            const first = await resolveSeries('tt1234567');
+            expect(first).toEqual({ outcome: 'http-error', imdbId: 'tt1234567', httpStatus: 503, cached: false });
+
+            mockFetch.mockImplementation(fetchMock(async () => {
+                throw new Error('socket hang up');
+            }));
+            const second = await resolveSeries('tt1234567');
+            expect(second.outcome).toBe('network-error');
+            // Each request is tried once and retried three times
+            expect(mockFetch).toHaveBeenCalledTimes(8);
+            expect(getCacheStats().negative.keys).toBe(0);
+            errorSpy.mockRestore();
+        });
+    });
+
+    describe('resolver chain', () => {
+        afterEach(() => {
+            delete process.env.RESOLVER_CHAIN;
+            delete process.env.TVDB_API_KEY;
+            delete process.env.MAPPING_FILE;
+            resetTVDBToken();
+        });
+
+        test('is configured when any resolver in the chain is', () => {
+            process.env.RESOLVER_CHAIN = 'mapping,tvdb';
+            expect(isResolverConfigured()).toBe(false);
+            process.env.TVDB_API_KEY = 'tvdb_key';
+            expect(isResolverConfigured()).toBe(true);
+        });
+
+        test('falls through to TheTVDB when TMDB has no TVDB ID', async () => {
+            process.env.TVDB_API_KEY = 'tvdb_key';
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                const href = url.toString();
+                if (href.includes('/find/')) {
+                    return new Response(JSON.stringify({ tv_results: [{ id: 1001, name: 'Test Show' }] }));
+                }
+                if (href.includes('/external_ids')) {
+                    return new Response(JSON.stringify({ id: 1001 }));
+                }
+                if (href.endsWith('/login')) {
+                    return new Response(JSON.stringify({ status: 'success', data: { token: 't' } }));
+                }
+                return new Response(JSON.stringify({ status: 'success', data: [{ series: { id: 3001, name: 'Test Show' } }] }));
+            }));
+
+            const result = await resolveSeries('tt1234567');
+            expect(result).toEqual({ outcome: 'resolved', imdbId: 'tt1234567', tvdbId: 3001, title: 'Test Show', cached: false, provider: 'tvdb' });
+
+            const stored = JSON.parse(fs.readFileSync(getCacheStats().disk.path, 'utf8').trim().split('\n').pop()!);
+            expect(stored.v.provider).toBe('tvdb');
+        });
+
+        test('reports the TMDB failure when no resolver finds the series', async () => {
+            process.env.TVDB_API_KEY = 'tvdb_key';
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                const href = url.toString();
+                if (href.includes('/find/')) {
+                    return new Response(JSON.stringify({ tv_results: [{ id: 1001, name: 'Test Show' }] }));
+                }
+                if (href.includes('/external_ids')) {
+                    return new Response(JSON.stringify({ id: 1001 }));
+                }
+                if (href.endsWith('/login')) {
+                    return new Response(JSON.stringify({ status: 'success', data: { token: 't' } }));
+                }
+                return new Response(JSON.stringify({ status: 'success', data: [] }));
+            }));
+
+            const result = await resolveSeries('tt1234567');
+            expect(result).toEqual({ outcome: 'no-tvdb-id', imdbId: 'tt1234567', tmdbId: 1001, cached: false });
+        });
+
+        test('tries resolvers in the configured order', async () => {
+            const file = path.join(process.env.DATA_DIR!, 'mapping.json');
+            fs.writeFileSync(file, JSON.stringify({ tt1234567: { tvdbId: 4001, title: 'Mapped Show' } }));
+            process.env.MAPPING_FILE = file;
+            process.env.RESOLVER_CHAIN = 'mapping,tmdb';
+            const mockFetch = spyOn(global, 'fetch');
+
+            const result = await resolveSeries('tt1234567');
+            expect(result).toMatchObject({ outcome: 'resolved', tvdbId: 4001, title: 'Mapped Show', provider: 'mapping' });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        test('rejects unknown resolvers', () => {
+            process.env.RESOLVER_CHAIN = 'tmdb,imdb';
+            expect(() => getResolverChain()).toThrow('RESOLVER_CHAIN has unknown resolvers: imdb');
+        });
+    });
+
+    describe('title search fallback', () => {
+        test('falls back to a title and year search and marks the match as fuzzy', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('/find/')) {
+                    return new Response(JSON.stringify({ tv_results: [] }));
+                }
+                if (url.toString().includes('/search/tv')) {
+                    return new Response(JSON.stringify({
+                        results: [
+                            { id: 1002, name: 'The Office', first_air_date: '2001-07-09' },
+                            { id: 1001, name: 'The Office', first_air_date: '2005-03-24' },
+                        ]
+                    }));
+                }
+                return new Response(JSON.stringify({ tvdb_id: 2001, id: 1001 }));
+            }));
+
+            const result = await resolveSeries('tt0386676', { title: 'The Office', year: 2005 });
+            expect(result).toEqual({
+                outcome: 'resolved',
+                imdbId: 'tt0386676',
+                tvdbId: 2001,
+                tmdbId: 1001,
+                title: 'The Office',
+                cached: false,
+                provider: 'tmdb-search',
+                match: 'fuzzy',
+                confidence: 1,
+            });
+            expect(mockFetch.mock.calls[1][0].toString()).toContain('query=The+Office');
+
+            const cached = await resolveSeries('tt0386676');
+            expect(cached).toMatchObject({ cached: true, provider: 'tmdb-search', match: 'fuzzy', confidence: 1 });
+        });
+
+        test('reports not-found when no candidate reaches the threshold', async () => {
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('/search/tv')) {
+                    return new Response(JSON.stringify({
+                        results: [{ id: 1003, name: 'The Office Party', first_air_date: '1998-01-01' }]
+                    }));
+                }
+                return new Response(JSON.stringify({ tv_results: [] }));
+            }));
+
+            const result = await resolveSeries('tt0386676', { title: 'The Office', year: 2005 });
+            expect(result.outcome).toBe('not-found');
+        });
     });
 
     describe('convertToSonarrFormat', () => {
         test('converts items to Sonarr format', async () => {
             // Mock resolveIMDBToTVDB internally by mocking fetch again
             // deeper integration test of the module
-             spyOn(global, 'fetch').mockImplementation(async (url) => {
+             spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
                 const u = url.toString();
                 if (u.includes('/find/')) {
                     return new Response(JSON.stringify({
@@ -66,7 +292,7 @@ describe('TVDB Utils', () => {
                     }));
                 }
                 return new Response(null, { status: 404 });
-            });
+            }));
 
             const items: any[] = [
                 { imdbId: 'tt1234567', title: 'Test Show', type: 'tvSeries' }
@@ -82,5 +308,198 @@ describe('TVDB Utils', () => {
                 ImdbId: 'tt1234567'
             });
         });
+
+        describe('overrides and exclusions', () => {
+            afterEach(() => {
+                clearOverrides();
+            });
+
+            test('uses a pinned mapping without asking TMDB and marks it', async () => {
+                const mockFetch = spyOn(global, 'fetch');
+                setMappingOverride({ imdbId: 'tt0903747', tvdbId: 81189, createdAt: new Date().toISOString() });
+
+                const result = await convertToSonarrFormat([
+                    { imdbId: 'tt0903747', title: 'Breaking Bad', type: 'tvSeries' },
+                ] as any);
+
+                expect(result).toEqual([
+                    { TvdbId: 81189, Title: 'Breaking Bad', ImdbId: 'tt0903747', Overridden: true },
+                ]);
+                expect(await resolveIMDBToTVDB('tt0903747')).toEqual({ tvdbId: 81189, title: '', overridden: true });
+                expect(mockFetch).not.toHaveBeenCalled();
+            });
+
+            test('leaves out excluded IMDB and TVDB IDs, per list or globally', async () => {
+                const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                    const u = url.toString();
+                    if (u.includes('/find/')) {
+                        const id = u.match(/find\/(tt\d+)/)![1];
+                        return new Response(JSON.stringify({ tv_results: [{ id: Number(id.slice(2)), name: id }] }));
+                    }
+                    const tmdbId = Number(u.match(/tv\/(\d+)\/external_ids/)![1]);
+                    return new Response(JSON.stringify({ tvdb_id: tmdbId + 1000 }));
+                }));
+                const now = new Date().toISOString();
+                addExclusion({ id: 'global:tt1', imdbId: 'tt1', createdAt: now });
+                addExclusion({ id: 'ls1:tvdb-1002', tvdbId: 1002, listId: 'ls1', createdAt: now });
+
+                const items: any[] = [
+                    { imdbId: 'tt1', title: 'One', type: 'tvSeries' },
+                    { imdbId: 'tt2', title: 'Two', type: 'tvSeries' },
+                    { imdbId: 'tt3', title: 'Three', type: 'tvSeries' },
+                ];
+
+                expect((await convertToSonarrFormat(items, 'ls1')).map((s) => s.TvdbId)).toEqual([1003]);
+                expect((await convertToSonarrFormat(items, 'ls2')).map((s) => s.TvdbId)).toEqual([1002, 1003]);
+                // Items of a combined list are checked against each list they came from
+                const sources = new Map([['tt2', ['ls2', 'ls1']], ['tt3', ['ls2']]]);
+                expect((await convertToSonarrFormat(items, sources)).map((s) => s.TvdbId)).toEqual([1003]);
+                expect(await resolveIMDBToTVDB('tt2', 'ls1')).toBeNull();
+                expect(await resolveIMDBToTVDB('tt1')).toBeNull();
+                // tt1 is excluded by IMDB ID, so it is never looked up
+                expect(mockFetch.mock.calls.some(([url]) => url.toString().includes('/find/tt1?'))).toBe(false);
+            });
+        });
+    });
+
+    describe('classifyUnknownItems', () => {
+        const items = [
+            { imdbId: 'tt1', title: 'Show', type: 'tvSeries' as const },
+            { imdbId: 'tt2', title: 'Mystery show', type: 'unknown' as const },
+            { imdbId: 'tt3', title: 'Mystery film', type: 'unknown' as const },
+        ];
+
+        test('reclassifies unknown items TMDB has TV results for, and caches the answer', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                const tvResults = url.toString().includes('/find/tt2') ? [{ id: 1002, name: 'Mystery show' }] : [];
+                return new Response(JSON.stringify({ tv_results: tvResults, movie_results: [] }));
+            }));
+
+            const classified = await classifyUnknownItems(items);
+            expect(classified.map(({ type, typeSource }) => [type, typeSource])).toEqual([
+                ['tvSeries', 'imdb'],
+                ['tvSeries', 'tmdb'],
+                ['unknown', 'imdb'],
+            ]);
+            // Only the unknown items are looked up
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+
+            await classifyUnknownItems(items);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(applyCachedClassifications(items)[1]).toMatchObject({ type: 'tvSeries', typeSource: 'tmdb' });
+        });
+
+        test('leaves items unknown and uncached when TMDB fails', async () => {
+            const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => new Response(null, { status: 401 })));
+
+            const classified = await classifyUnknownItems([items[1]]);
+            expect(classified[0]).toMatchObject({ type: 'unknown', typeSource: 'imdb' });
+            expect(errorSpy).toHaveBeenCalled();
+
+            await classifyUnknownItems([items[1]]);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        test('does not call TMDB when only applying cached classifications', () => {
+            const mockFetch = spyOn(global, 'fetch');
+            expect(applyCachedClassifications(items).map((item) => item.type)).toEqual(['tvSeries', 'unknown', 'unknown']);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resolveTVDBToIMDB', () => {
+        test('finds the show by TVDB ID and reads its IMDB ID from external IDs', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('/find/2001') && url.toString().includes('external_source=tvdb_id')) {
+                    return new Response(JSON.stringify({ tv_results: [{ id: 1001, name: 'Test Show' }], movie_results: [] }));
+                }
+                if (url.toString().includes('/tv/1001/external_ids')) {
+                    return new Response(JSON.stringify({ id: 1001, imdb_id: 'tt1234567', tvdb_id: 2001 }));
+                }
+                return new Response(null, { status: 404 });
+            }));
+
+            expect(await resolveTVDBToIMDB(2001)).toBe('tt1234567');
+            expect(await resolveTVDBToIMDB(2001)).toBe('tt1234567');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        test('skips the find request when the TMDB ID is known', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () =>
+                new Response(JSON.stringify({ id: 1001, imdb_id: 'tt1234567' }))
+            ));
+
+            expect(await resolveTVDBToIMDB(2001, 1001)).toBe('tt1234567');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('returns null without caching on transient errors', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => new Response(null, { status: 503 })));
+            spyOn(console, 'error').mockImplementation(() => {});
+
+            expect(await resolveTVDBToIMDB(2001)).toBeNull();
+            expect(await resolveTVDBToIMDB(2001)).toBeNull();
+            // Each request is tried once and retried three times
+            expect(mockFetch).toHaveBeenCalledTimes(8);
+        });
+    });
+
+    describe('resolveIMDBToTMDBMovie', () => {
+        test('resolves IMDB ID to TMDB movie via movie_results', async () => {
+            const mockFetch = spyOn(global, 'fetch').mockImplementation(fetchMock(async () => {
+                return new Response(JSON.stringify({
+                    tv_results: [],
+                    movie_results: [{ id: 550, title: 'Fight Club', release_date: '1999-10-15' }]
+                }));
+            }));
+
+            const result = await resolveIMDBToTMDBMovie('tt0137523');
+
+            expect(result).toEqual({ tmdbId: 550, title: 'Fight Club', year: 1999 });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+
+            // Second lookup is served from the movie cache
+            await resolveIMDBToTMDBMovie('tt0137523');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('returns null when TMDB has no movie result', async () => {
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async () => {
+                return new Response(JSON.stringify({
+                    tv_results: [{ id: 1001, name: 'Test Show' }],
+                    movie_results: []
+                }));
+            }));
+
+            const result = await resolveIMDBToTMDBMovie('tt1234567');
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('convertToRadarrFormat', () => {
+        test('converts items to Radarr format and keeps unresolved movies', async () => {
+            spyOn(global, 'fetch').mockImplementation(fetchMock(async (url) => {
+                if (url.toString().includes('tt0137523')) {
+                    return new Response(JSON.stringify({
+                        tv_results: [],
+                        movie_results: [{ id: 550, title: 'Fight Club', release_date: '1999-10-15' }]
+                    }));
+                }
+                return new Response(JSON.stringify({ tv_results: [], movie_results: [] }));
+            }));
+
+            const items: any[] = [
+                { imdbId: 'tt0137523', title: 'Fight Club', type: 'movie', year: 1999 },
+                { imdbId: 'tt9999999', title: 'Obscure Film', type: 'movie', year: 2024 }
+            ];
+
+            const result = await convertToRadarrFormat(items);
+
+            expect(result).toEqual([
+                { title: 'Fight Club', imdb_id: 'tt0137523', tmdb_id: 550, year: 1999 },
+                { title: 'Obscure Film', imdb_id: 'tt9999999', year: 2024 }
+            ]);
+        });
     });
 });